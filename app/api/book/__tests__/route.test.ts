@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/slots", () => ({
+  HOST_TIMEZONE: "America/Los_Angeles",
+  assignHost: vi.fn(),
+  getBookingEventProperties: vi.fn(() => ({ bookedVia: "scheduler" })),
+  getMeetingTypeById: vi.fn(),
+  getSlotBookability: vi.fn(),
+}));
+
+import { POST } from "@/app/api/book/route";
+import { CalendarProviderConfigError, type CalendarProvider } from "@/lib/calendar-provider";
+import { registerCalendarProviderFactory } from "@/lib/calendar-providers";
+import type { Host } from "@/lib/hosts";
+import type { MeetingType } from "@/lib/meeting-types";
+import { assignHost, getMeetingTypeById, getSlotBookability } from "@/lib/slots";
+
+const createCalendarEventMock = vi.fn<CalendarProvider["createEvent"]>();
+const assertWritableMock = vi.fn<CalendarProvider["assertWritable"]>();
+const fakeProvider: CalendarProvider = {
+  id: "fake",
+  getFreeBusy: vi.fn(),
+  createEvent: createCalendarEventMock,
+  updateEvent: vi.fn(),
+  deleteEvent: vi.fn(),
+  getEvent: vi.fn(),
+  listEvents: vi.fn(),
+  assertWritable: assertWritableMock,
+};
+
+registerCalendarProviderFactory("fake", () => fakeProvider);
+
+describe("POST /api/book", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("rejects a booking whose destination calendar cannot be written to", async () => {
+    const meetingType: MeetingType = {
+      id: "intro-30",
+      title: "Introductory Call",
+      durationMinutes: 30,
+      isActive: true,
+    };
+    const host: Host = { id: "sam", name: "Sam", calendarId: "shared@example.com", provider: "fake" };
+
+    vi.mocked(getMeetingTypeById).mockReturnValue(meetingType);
+    vi.mocked(getSlotBookability).mockResolvedValue({ bookable: true, hosts: [host] });
+    vi.mocked(assignHost).mockResolvedValue(host);
+    assertWritableMock.mockRejectedValue(
+      new CalendarProviderConfigError('Bookings cannot be written to calendar "shared@example.com".'),
+    );
+
+    const response = await POST(
+      new Request("http://localhost/api/book", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          meetingTypeId: meetingType.id,
+          slot: { start: "2025-01-15T16:00:00.000Z", end: "2025-01-15T16:30:00.000Z" },
+          guest: { name: "Guest Name", email: "guest@example.com" },
+        }),
+      }),
+    );
+
+    expect(response.status).toBe(503);
+    await expect(response.json()).resolves.toEqual({
+      status: "misconfigured",
+      message: "Bookings for this meeting type cannot be saved right now. Please try again later.",
+    });
+    expect(assertWritableMock).toHaveBeenCalledWith("shared@example.com");
+    expect(createCalendarEventMock).not.toHaveBeenCalled();
+  });
+});
@@ -1,9 +1,19 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
-import { createCalendarEvent, getGoogleCalendarIds, updateCalendarEvent } from "@/lib/google";
+import { invalidateAvailabilityCache } from "@/lib/availability-cache";
+import { CalendarProviderConfigError } from "@/lib/calendar-provider";
+import { getCalendarProviderForHost } from "@/lib/calendar-providers";
+import { getHostAttendees } from "@/lib/hosts";
+import { getDurationOptions, isAllowedDuration } from "@/lib/meeting-types";
 import { createManagementLinks, describeManagementLinks, upsertManageLinkInDescription } from "@/lib/sign";
-import { HOST_TIMEZONE, getAvailabilityByDate, getMeetingTypeById } from "@/lib/slots";
+import {
+  HOST_TIMEZONE,
+  assignHost,
+  getBookingEventProperties,
+  getMeetingTypeById,
+  getSlotBookability,
+} from "@/lib/slots";
 
 const bookingRequestSchema = z.object({
   meetingTypeId: z.string().min(1, "Meeting type is required"),
@@ -63,15 +73,23 @@ export async function POST(request: Request) {
     );
   }
 
-  try {
-    const availabilityByDate = await getAvailabilityByDate(payload.meetingTypeId);
-    const dateKey = payload.slot.start.slice(0, 10);
-    const slotsForDate = availabilityByDate[dateKey] ?? [];
-    const isSlotStillAvailable = slotsForDate.some(
-      (slot) => slot.start === payload.slot.start && slot.end === payload.slot.end,
+  const durationMinutes = (Date.parse(payload.slot.end) - Date.parse(payload.slot.start)) / 60000;
+
+  if (!isAllowedDuration(meetingType, durationMinutes)) {
+    return NextResponse.json(
+      {
+        status: "invalid_duration",
+        message: `Meeting type ${meetingType.id} only offers ${getDurationOptions(meetingType).join(", ")}-minute meetings.`,
+      },
+      { status: 400 },
     );
+  }
+
+  try {
+    const { hosts: freeHosts } = await getSlotBookability(payload.meetingTypeId, payload.slot);
+    const host = await assignHost(meetingType, freeHosts);
 
-    if (!isSlotStillAvailable) {
+    if (!host) {
       return NextResponse.json(
         {
           status: "conflict",
@@ -81,20 +99,28 @@ export async function POST(request: Request) {
       );
     }
 
-    const [calendarId] = getGoogleCalendarIds();
+    const { calendarId } = host;
+    const calendarProvider = getCalendarProviderForHost(host);
+    await calendarProvider.assertWritable(calendarId);
     const eventSummary = `${meetingType.title} with ${payload.guest.name}`;
+    const attendees = [
+      { email: payload.guest.email, displayName: payload.guest.name },
+      ...getHostAttendees(meetingType),
+    ];
 
     const baseDescription = buildEventDescription(payload);
 
-    const event = await createCalendarEvent({
+    const event = await calendarProvider.createEvent({
       calendarId,
       summary: eventSummary,
       description: baseDescription,
       start: payload.slot.start,
       end: payload.slot.end,
-      attendees: [{ email: payload.guest.email, displayName: payload.guest.name }],
+      attendees,
+      privateProperties: getBookingEventProperties(meetingType.id, host.id),
       sendUpdates: "none",
     });
+    invalidateAvailabilityCache();
 
     const managementLinksRaw = createManagementLinks({
       meetingTypeId: meetingType.id,
@@ -102,6 +128,7 @@ export async function POST(request: Request) {
       guestEmail: payload.guest.email,
       guestName: payload.guest.name,
       calendarId,
+      hostId: host.id,
       slotStart: event.start,
       slotEnd: event.end,
     });
@@ -113,13 +140,13 @@ export async function POST(request: Request) {
     let eventForResponse = event;
 
     try {
-      eventForResponse = await updateCalendarEvent({
+      eventForResponse = await calendarProvider.updateEvent({
         calendarId,
         eventId: event.id,
         start: event.start,
         end: event.end,
         summary: eventSummary,
-        attendees: [{ email: payload.guest.email, displayName: payload.guest.name }],
+        attendees,
         description: descriptionWithManageLink,
         sendUpdates: "all",
       });
@@ -132,6 +159,7 @@ export async function POST(request: Request) {
         status: "confirmed",
         eventId: eventForResponse.id,
         calendarId,
+        hostId: host.id,
         htmlLink: eventForResponse.htmlLink,
         hangoutLink: eventForResponse.hangoutLink,
         start: eventForResponse.start,
@@ -141,6 +169,18 @@ export async function POST(request: Request) {
       { status: 201 },
     );
   } catch (error) {
+    if (error instanceof CalendarProviderConfigError) {
+      console.error("[api/book] Booking destination is misconfigured", error);
+
+      return NextResponse.json(
+        {
+          status: "misconfigured",
+          message: "Bookings for this meeting type cannot be saved right now. Please try again later.",
+        },
+        { status: 503 },
+      );
+    }
+
     console.error("[api/book] Failed to create calendar event", error);
 
     return NextResponse.json(
@@ -0,0 +1,90 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/google", async () => {
+  const actual = await vi.importActual<typeof import("@/lib/google")>("@/lib/google");
+  return {
+    ...actual,
+    exchangeGoogleAuthorizationCode: vi.fn(),
+  };
+});
+
+vi.mock("@/lib/google-credential-store", async () => {
+  const actual = await vi.importActual<typeof import("@/lib/google-credential-store")>("@/lib/google-credential-store");
+  return {
+    ...actual,
+    writeStoredGoogleCredentials: vi.fn(),
+  };
+});
+
+import { GET } from "@/app/api/integrations/google/callback/route";
+import { exchangeGoogleAuthorizationCode, type GoogleAccessToken } from "@/lib/google";
+import { GOOGLE_CONNECT_COOKIE, encodeGoogleConnectSession } from "@/lib/google-connect";
+import { writeStoredGoogleCredentials } from "@/lib/google-credential-store";
+
+const session = {
+  state: "expected-state",
+  codeVerifier: "verifier",
+  redirectUri: "https://app.test/api/integrations/google/callback",
+};
+
+function callbackRequest(query: string, cookie: string | null = encodeGoogleConnectSession(session)) {
+  return new NextRequest(`https://app.test/api/integrations/google/callback?${query}`, {
+    headers: cookie ? { cookie: `${GOOGLE_CONNECT_COOKIE}=${cookie}` } : {},
+  });
+}
+
+describe("GET /api/integrations/google/callback", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("stores the refresh token when the state matches", async () => {
+    vi.mocked(exchangeGoogleAuthorizationCode).mockResolvedValue({
+      accessToken: "access",
+      expiresIn: 3600,
+      expiresAt: Date.now() + 3600 * 1000,
+      tokenType: "Bearer",
+      scope: "https://www.googleapis.com/auth/calendar",
+      raw: {},
+      refreshToken: "new-refresh",
+    } satisfies GoogleAccessToken & { refreshToken: string });
+
+    const response = await GET(
+      callbackRequest(
+        "code=auth-code&state=expected-state",
+        encodeGoogleConnectSession({ ...session, calendarId: "sam@example.com" }),
+      ),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: "connected", calendarId: "sam@example.com" });
+    expect(exchangeGoogleAuthorizationCode).toHaveBeenCalledWith({
+      code: "auth-code",
+      codeVerifier: "verifier",
+      redirectUri: session.redirectUri,
+    });
+    expect(writeStoredGoogleCredentials).toHaveBeenCalledWith(
+      expect.objectContaining({ refreshToken: "new-refresh", scope: "https://www.googleapis.com/auth/calendar" }),
+      "sam@example.com",
+    );
+    expect(response.cookies.get(GOOGLE_CONNECT_COOKIE)?.value).toBe("");
+  });
+
+  it("rejects a mismatched state without exchanging the code", async () => {
+    const response = await GET(callbackRequest("code=auth-code&state=forged-state"));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ status: "invalid_state" });
+    expect(exchangeGoogleAuthorizationCode).not.toHaveBeenCalled();
+    expect(writeStoredGoogleCredentials).not.toHaveBeenCalled();
+  });
+
+  it("rejects callbacks without a connect session", async () => {
+    const response = await GET(callbackRequest("code=auth-code&state=expected-state", null));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ status: "expired" });
+    expect(exchangeGoogleAuthorizationCode).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { invalidateAvailabilityCache } from "@/lib/availability-cache";
+import {
+  clearGoogleAccessTokenCache,
+  exchangeGoogleAuthorizationCode,
+  GoogleAuthConfigError,
+  GoogleAuthError,
+} from "@/lib/google";
+import {
+  GOOGLE_CONNECT_COOKIE,
+  GOOGLE_CONNECT_COOKIE_PATH,
+  decodeGoogleConnectSession,
+  isGoogleConnectStateValid,
+} from "@/lib/google-connect";
+import { GoogleCredentialStoreError, writeStoredGoogleCredentials } from "@/lib/google-credential-store";
+
+function respond(body: Record<string, unknown>, status: number) {
+  const response = NextResponse.json(body, { status });
+  // The state and verifier are single-use, whatever the outcome.
+  response.cookies.set(GOOGLE_CONNECT_COOKIE, "", { path: GOOGLE_CONNECT_COOKIE_PATH, maxAge: 0 });
+  return response;
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const session = decodeGoogleConnectSession(request.cookies.get(GOOGLE_CONNECT_COOKIE)?.value);
+
+  if (!session) {
+    return respond(
+      { status: "expired", message: "The connect session expired. Start again from /api/integrations/google/connect." },
+      400,
+    );
+  }
+
+  if (!isGoogleConnectStateValid(session, searchParams.get("state"))) {
+    return respond({ status: "invalid_state", message: "The authorization response did not match this session." }, 400);
+  }
+
+  const authorizationError = searchParams.get("error");
+  if (authorizationError) {
+    return respond({ status: "denied", message: `Google authorization failed: ${authorizationError}` }, 400);
+  }
+
+  const code = searchParams.get("code");
+  if (!code) {
+    return respond({ status: "invalid", message: "The authorization response is missing a code." }, 400);
+  }
+
+  try {
+    const token = await exchangeGoogleAuthorizationCode({
+      code,
+      codeVerifier: session.codeVerifier,
+      redirectUri: session.redirectUri,
+    });
+
+    writeStoredGoogleCredentials(
+      { refreshToken: token.refreshToken, scope: token.scope, connectedAt: Date.now() },
+      session.calendarId,
+    );
+    clearGoogleAccessTokenCache();
+    invalidateAvailabilityCache();
+
+    return respond({ status: "connected", calendarId: session.calendarId ?? null, scope: token.scope ?? null }, 200);
+  } catch (error) {
+    if (error instanceof GoogleAuthConfigError || error instanceof GoogleCredentialStoreError) {
+      return respond({ status: "misconfigured", message: error.message }, 500);
+    }
+    if (error instanceof GoogleAuthError) {
+      return respond({ status: "exchange_failed", message: error.message }, 502);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+
+import { createGoogleAuthorizationRequest, GoogleAuthConfigError } from "@/lib/google";
+import {
+  GOOGLE_CONNECT_COOKIE,
+  GOOGLE_CONNECT_COOKIE_PATH,
+  GOOGLE_CONNECT_TTL_SECONDS,
+  encodeGoogleConnectSession,
+  getGoogleConnectRedirectUri,
+  isGoogleConnectAuthorized,
+} from "@/lib/google-connect";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  if (!isGoogleConnectAuthorized(searchParams.get("secret"))) {
+    return NextResponse.json(
+      {
+        status: "forbidden",
+        message: "Set GOOGLE_CONNECT_SECRET and pass it as ?secret= to connect a Google account.",
+      },
+      { status: 403 },
+    );
+  }
+
+  const redirectUri = getGoogleConnectRedirectUri(request);
+  const calendarId = searchParams.get("calendarId")?.trim() || undefined;
+
+  try {
+    const { url, state, codeVerifier } = createGoogleAuthorizationRequest(redirectUri);
+    const response = NextResponse.redirect(url);
+
+    response.cookies.set(
+      GOOGLE_CONNECT_COOKIE,
+      encodeGoogleConnectSession({ state, codeVerifier, redirectUri, calendarId }),
+      {
+        httpOnly: true,
+        secure: redirectUri.startsWith("https://"),
+        sameSite: "lax",
+        path: GOOGLE_CONNECT_COOKIE_PATH,
+        maxAge: GOOGLE_CONNECT_TTL_SECONDS,
+      },
+    );
+
+    return response;
+  } catch (error) {
+    if (error instanceof GoogleAuthConfigError) {
+      return NextResponse.json({ status: "misconfigured", message: error.message }, { status: 500 });
+    }
+    throw error;
+  }
+}
@@ -1,9 +1,12 @@
 import { NextResponse } from "next/server";
 
 import { getGoogleHealth } from "@/lib/google";
+import { getBookingDestinationHosts } from "@/lib/slots";
 
 export async function GET() {
-  const health = await getGoogleHealth();
+  const health = await getGoogleHealth(fetch, {
+    getWriteCalendarIds: () => getBookingDestinationHosts("google").map((host) => host.calendarId),
+  });
   const statusCode = health.status === "ok" ? 200 : health.status === "degraded" ? 503 : 502;
 
   return NextResponse.json(health, { status: statusCode });
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+
+import { getMicrosoftHealth } from "@/lib/microsoft";
+import { getBookingDestinationHosts } from "@/lib/slots";
+
+export async function GET() {
+  const health = await getMicrosoftHealth(fetch, {
+    getCalendarIds: () => getBookingDestinationHosts("microsoft").map((host) => host.calendarId),
+  });
+  const statusCode = health.status === "ok" ? 200 : health.status === "degraded" ? 503 : 502;
+
+  return NextResponse.json(health, { status: statusCode });
+}
@@ -7,8 +7,9 @@ import {
   verifySignedLink,
   type ManagementLinkCollection,
 } from "@/lib/sign";
-import { HOST_TIMEZONE, getMeetingTypeById, type MeetingType } from "@/lib/slots";
-import { getGoogleCalendarIds } from "@/lib/google";
+import type { MeetingType } from "@/lib/meeting-types";
+import { HOST_TIMEZONE, getMeetingTypeById } from "@/lib/slots";
+import { getDefaultHost } from "@/lib/hosts";
 
 type ManageSuccessResponse = {
   status: "ok";
@@ -43,8 +44,7 @@ function getCalendarIdFromToken(tokenCalendarId?: string): string {
     return tokenCalendarId;
   }
 
-  const [calendarId] = getGoogleCalendarIds();
-  return calendarId;
+  return getDefaultHost().calendarId;
 }
 
 export async function GET(request: Request) {
@@ -124,6 +124,7 @@ export async function GET(request: Request) {
     guestEmail: decoded.guestEmail,
     guestName: decoded.guestName,
     calendarId,
+    hostId: decoded.hostId,
     slotStart: decoded.slotStart,
     slotEnd: decoded.slotEnd,
   });
@@ -1,8 +1,8 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 vi.mock("@/lib/slots", () => ({
-  getAvailabilityByDate: vi.fn(),
   getMeetingTypeById: vi.fn(),
+  getSlotBookability: vi.fn(),
 }));
 
 vi.mock("@/lib/sign", () => ({
@@ -13,16 +13,9 @@ vi.mock("@/lib/sign", () => ({
   upsertManageLinkInDescription: vi.fn(),
 }));
 
-vi.mock("@/lib/google", async () => {
-  const actual = await vi.importActual<typeof import("@/lib/google")>("@/lib/google");
-  return {
-    ...actual,
-    updateCalendarEvent: vi.fn(),
-  };
-});
-
 import { PATCH } from "@/app/api/reschedule/route";
-import { getAvailabilityByDate, getMeetingTypeById, type MeetingType } from "@/lib/slots";
+import type { MeetingType } from "@/lib/meeting-types";
+import { getMeetingTypeById, getSlotBookability } from "@/lib/slots";
 import {
   createManagementLinks,
   decodeSignedLinkPayload,
@@ -32,11 +25,32 @@ import {
   type ManagementLinkCollection,
   type SignedLinkPayload,
 } from "@/lib/sign";
-import { updateCalendarEvent, type GoogleCalendarEvent } from "@/lib/google";
+import type { CalendarEvent, CalendarProvider } from "@/lib/calendar-provider";
+import { registerCalendarProviderFactory } from "@/lib/calendar-providers";
+
+const updateCalendarEventMock = vi.fn<CalendarProvider["updateEvent"]>();
+const getCalendarEventMock = vi.fn<CalendarProvider["getEvent"]>();
+const fakeProvider: CalendarProvider = {
+  id: "fake",
+  getFreeBusy: vi.fn(),
+  createEvent: vi.fn(),
+  updateEvent: updateCalendarEventMock,
+  deleteEvent: vi.fn(),
+  getEvent: getCalendarEventMock,
+  listEvents: vi.fn(),
+  assertWritable: vi.fn(),
+};
+
+registerCalendarProviderFactory("fake", () => fakeProvider);
 
 describe("PATCH /api/reschedule", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.stubEnv("CALENDAR_PROVIDER", "fake");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
   });
 
   it("sends guest update emails when the meeting is rescheduled", async () => {
@@ -44,7 +58,6 @@ describe("PATCH /api/reschedule", () => {
       start: "2025-01-15T16:00:00.000Z",
       end: "2025-01-15T16:30:00.000Z",
     };
-    const requestedSlotDateKey = requestedSlot.start.slice(0, 10);
 
     const meetingType: MeetingType = {
       id: "intro-30",
@@ -90,7 +103,7 @@ describe("PATCH /api/reschedule", () => {
       },
     };
 
-    const calendarEventInitial: GoogleCalendarEvent = {
+    const calendarEventInitial: CalendarEvent = {
       id: decodedPayload.eventId,
       start: requestedSlot.start,
       end: requestedSlot.end,
@@ -98,7 +111,7 @@ describe("PATCH /api/reschedule", () => {
       raw: { description: "Existing description" },
     };
 
-    const calendarEventFinal: GoogleCalendarEvent = {
+    const calendarEventFinal: CalendarEvent = {
       ...calendarEventInitial,
       raw: { description: "Updated description" },
     };
@@ -106,15 +119,12 @@ describe("PATCH /api/reschedule", () => {
     vi.mocked(decodeSignedLinkPayload).mockReturnValue(decodedPayload);
     vi.mocked(verifySignedLink).mockReturnValue(decodedPayload);
     vi.mocked(getMeetingTypeById).mockReturnValue(meetingType);
-    vi.mocked(getAvailabilityByDate).mockResolvedValue({
-      [requestedSlotDateKey]: [requestedSlot],
-    });
+    vi.mocked(getSlotBookability).mockResolvedValue({ bookable: true, hosts: [] });
     vi.mocked(createManagementLinks).mockReturnValue(managementLinksRaw);
     vi.mocked(describeManagementLinks).mockReturnValue(managementLinks);
     vi.mocked(upsertManageLinkInDescription).mockReturnValue("Updated description");
 
-    const updateCalendarEventMock = vi.mocked(updateCalendarEvent);
-    updateCalendarEventMock.mockResolvedValueOnce(calendarEventInitial);
+    getCalendarEventMock.mockResolvedValueOnce(calendarEventInitial);
     updateCalendarEventMock.mockResolvedValueOnce(calendarEventFinal);
 
     const response = await PATCH(
@@ -126,6 +136,10 @@ describe("PATCH /api/reschedule", () => {
     );
 
     expect(response.status).toBe(200);
+    expect(getSlotBookability).toHaveBeenCalledWith(meetingType.id, requestedSlot, {
+      hostId: decodedPayload.hostId,
+      excludeEventId: decodedPayload.eventId,
+    });
 
     const json = await response.json();
     expect(json).toMatchObject({
@@ -145,20 +159,15 @@ describe("PATCH /api/reschedule", () => {
       slotEnd: requestedSlot.end,
     });
 
-    expect(updateCalendarEventMock).toHaveBeenCalledTimes(2);
-
-    const firstCall = updateCalendarEventMock.mock.calls[0]?.[0];
-    expect(firstCall).toMatchObject({
+    expect(getCalendarEventMock).toHaveBeenCalledWith({
       calendarId: decodedPayload.calendarId,
       eventId: decodedPayload.eventId,
-      start: requestedSlot.start,
-      end: requestedSlot.end,
-      sendUpdates: "none",
-      attendees: [{ email: decodedPayload.guestEmail }],
     });
+    // A single update moves the event and carries the refreshed manage link.
+    expect(updateCalendarEventMock).toHaveBeenCalledTimes(1);
 
-    const secondCall = updateCalendarEventMock.mock.calls[1]?.[0];
-    expect(secondCall).toMatchObject({
+    const updateCall = updateCalendarEventMock.mock.calls[0]?.[0];
+    expect(updateCall).toMatchObject({
       calendarId: decodedPayload.calendarId,
       eventId: decodedPayload.eventId,
       start: requestedSlot.start,
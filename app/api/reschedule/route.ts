@@ -1,12 +1,13 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
+import { isAllowedDuration, type MeetingType } from "@/lib/meeting-types";
 import {
   getAvailabilityByDate,
   getAvailabilityWithFallback,
   getMeetingTypeById,
+  getSlotBookability,
   HOST_TIMEZONE,
-  type MeetingType,
 } from "@/lib/slots";
 import {
   createManagementLinks,
@@ -16,12 +17,10 @@ import {
   verifySignedLink,
   type ManagementLinkCollection,
 } from "@/lib/sign";
-import {
-  GoogleApiError,
-  getGoogleCalendarIds,
-  updateCalendarEvent,
-  type GoogleCalendarEvent,
-} from "@/lib/google";
+import { CalendarProviderError, type CalendarEvent } from "@/lib/calendar-provider";
+import { getCalendarProviderForHost } from "@/lib/calendar-providers";
+import { getDefaultHost, getHostAttendees } from "@/lib/hosts";
+import { invalidateAvailabilityCache } from "@/lib/availability-cache";
 
 const rescheduleRequestSchema = z.object({
   token: z.string().min(1, "Token is required"),
@@ -61,7 +60,7 @@ type RescheduleError = {
 
 type RescheduleUpdateResponse = {
   status: "rescheduled";
-  event: GoogleCalendarEvent;
+  event: CalendarEvent;
   calendarId: string;
   managementLinks: ManagementLinkCollection;
 };
@@ -79,21 +78,26 @@ function removeExistingSlot(
   slotsByDate: Awaited<ReturnType<typeof getAvailabilityByDate>>,
   existingSlotStart?: string,
 ) {
-  if (!existingSlotStart) {
+  const existingStartMs = existingSlotStart ? Date.parse(existingSlotStart) : Number.NaN;
+  if (!Number.isFinite(existingStartMs)) {
     return slotsByDate;
   }
 
-  const dateKey = existingSlotStart.slice(0, 10);
-  const slotsForDate = slotsByDate[dateKey] ?? [];
+  return Object.fromEntries(
+    Object.entries(slotsByDate).map(([dateKey, slots]) => [
+      dateKey,
+      slots.filter((slot) => Date.parse(slot.start) !== existingStartMs),
+    ]),
+  );
+}
 
-  if (!slotsForDate.some((slot) => slot.start === existingSlotStart)) {
-    return slotsByDate;
+function getSlotDurationMinutes(slot: { start?: string; end?: string }): number | undefined {
+  if (!slot.start || !slot.end) {
+    return undefined;
   }
 
-  return {
-    ...slotsByDate,
-    [dateKey]: slotsForDate.filter((slot) => slot.start !== existingSlotStart),
-  };
+  const minutes = (Date.parse(slot.end) - Date.parse(slot.start)) / 60000;
+  return Number.isFinite(minutes) ? minutes : undefined;
 }
 
 function getCalendarIdFromToken(tokenCalendarId?: string): string {
@@ -101,8 +105,7 @@ function getCalendarIdFromToken(tokenCalendarId?: string): string {
     return tokenCalendarId;
   }
 
-  const [calendarId] = getGoogleCalendarIds();
-  return calendarId;
+  return getDefaultHost().calendarId;
 }
 
 export async function GET(request: Request) {
@@ -159,7 +162,14 @@ export async function GET(request: Request) {
   }
 
   try {
-    const availability = await getAvailabilityWithFallback(meetingType.id);
+    const bookedDuration = getSlotDurationMinutes({ start: decoded.slotStart, end: decoded.slotEnd });
+    const durationMinutes =
+      bookedDuration !== undefined && isAllowedDuration(meetingType, bookedDuration) ? bookedDuration : undefined;
+    const availability = await getAvailabilityWithFallback(meetingType.id, {
+      durationMinutes,
+      hostId: decoded.hostId,
+      excludeEventId: verified.eventId,
+    });
     const sanitized = removeExistingSlot(availability.slotsByDate, decoded.slotStart);
 
     const currentSlot = decoded.slotStart && decoded.slotEnd ? { start: decoded.slotStart, end: decoded.slotEnd } : null;
@@ -180,7 +190,7 @@ export async function GET(request: Request) {
       },
     });
   } catch (error) {
-    if (error instanceof GoogleApiError) {
+    if (error instanceof CalendarProviderError) {
       return buildErrorResponse(
         {
           status: "google_error",
@@ -277,13 +287,23 @@ export async function PATCH(request: Request) {
     );
   }
 
-  try {
-    const availability = await getAvailabilityByDate(meetingType.id);
-    const dateKey = slot.start.slice(0, 10);
-    const slotsForDate = availability[dateKey] ?? [];
-    const slotAvailable = slotsForDate.some(
-      (candidate) => candidate.start === slot.start && candidate.end === slot.end,
+  const requestedDuration = getSlotDurationMinutes(slot);
+
+  if (requestedDuration === undefined || !isAllowedDuration(meetingType, requestedDuration)) {
+    return buildErrorResponse(
+      {
+        status: "unavailable",
+        message: "That time does not match an offered meeting length. Please choose another slot.",
+      },
+      { status: 400 },
     );
+  }
+
+  try {
+    const { bookable: slotAvailable } = await getSlotBookability(meetingType.id, slot, {
+      hostId: decoded.hostId,
+      excludeEventId: verified.eventId,
+    });
 
     if (!slotAvailable) {
       return buildErrorResponse(
@@ -301,13 +321,24 @@ export async function PATCH(request: Request) {
       guestEmail: decoded.guestEmail,
       guestName: decoded.guestName,
       calendarId,
+      hostId: decoded.hostId,
       slotStart: slot.start,
       slotEnd: slot.end,
     });
 
     const managementLinks = describeManagementLinks(managementLinksRaw, { source: request });
+    const attendees = [{ email: decoded.guestEmail }, ...getHostAttendees(meetingType)];
+
+    const calendarProvider = getCalendarProviderForHost(decoded.hostId);
+
+    // Move the event and refresh its manage link in one update, so attendees get a single notice.
+    const existingEvent = await calendarProvider.getEvent({ calendarId, eventId: verified.eventId });
+    const descriptionWithManage = upsertManageLinkInDescription(
+      typeof existingEvent.raw.description === "string" ? existingEvent.raw.description : "",
+      managementLinks.manage.url,
+    );
 
-    const updatedEvent = await updateCalendarEvent({
+    const finalEvent = await calendarProvider.updateEvent({
       calendarId,
       eventId: verified.eventId,
       start: slot.start,
@@ -316,34 +347,11 @@ export async function PATCH(request: Request) {
         typeof decoded.guestName === "string" && decoded.guestName.length > 0
           ? `${meetingType.title} with ${decoded.guestName}`
           : undefined,
-      attendees: [{ email: decoded.guestEmail }],
-      sendUpdates: "none",
+      attendees,
+      description: descriptionWithManage,
+      sendUpdates: "all",
     });
-
-    let finalEvent = updatedEvent;
-
-    try {
-      const descriptionWithManage = upsertManageLinkInDescription(
-        typeof updatedEvent.raw.description === "string" ? updatedEvent.raw.description : "",
-        managementLinks.manage.url,
-      );
-
-      finalEvent = await updateCalendarEvent({
-        calendarId,
-        eventId: verified.eventId,
-        start: updatedEvent.start,
-        end: updatedEvent.end,
-        summary:
-          typeof decoded.guestName === "string" && decoded.guestName.length > 0
-            ? `${meetingType.title} with ${decoded.guestName}`
-            : undefined,
-        attendees: [{ email: decoded.guestEmail }],
-        description: descriptionWithManage,
-        sendUpdates: "all",
-      });
-    } catch (error) {
-      console.error("[reschedule] Failed to refresh manage link in calendar event", error);
-    }
+    invalidateAvailabilityCache();
 
     return NextResponse.json<RescheduleUpdateResponse>({
       status: "rescheduled",
@@ -352,7 +360,7 @@ export async function PATCH(request: Request) {
       managementLinks,
     });
   } catch (error) {
-    if (error instanceof GoogleApiError) {
+    if (error instanceof CalendarProviderError) {
       if (error.status === 404 || error.status === 410) {
         return buildErrorResponse(
           {
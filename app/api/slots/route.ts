@@ -1,12 +1,27 @@
 import { NextResponse } from "next/server";
 
-import { HOST_TIMEZONE, getAvailabilityWithFallback } from "@/lib/slots";
+import { isAllowedDuration } from "@/lib/meeting-types";
+import { HOST_TIMEZONE, getAvailabilityWithFallback, getMeetingTypeById } from "@/lib/slots";
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const meetingTypeId = searchParams.get("meetingTypeId") ?? "intro-30";
   const date = searchParams.get("date");
-  const availability = await getAvailabilityWithFallback(meetingTypeId);
+  const durationParam = searchParams.get("duration");
+  const durationMinutes = durationParam ? Number(durationParam) : undefined;
+  const meetingType = getMeetingTypeById(meetingTypeId);
+
+  if (durationMinutes !== undefined && meetingType && !isAllowedDuration(meetingType, durationMinutes)) {
+    return NextResponse.json(
+      {
+        status: "invalid_duration",
+        message: `Meeting type ${meetingTypeId} does not offer ${durationParam}-minute meetings.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const availability = await getAvailabilityWithFallback(meetingTypeId, { durationMinutes });
   const slots = date
     ? availability.slotsByDate[date] ?? []
     : availability.slotsByDate;
@@ -14,6 +29,7 @@ export async function GET(request: Request) {
   return NextResponse.json({
     meetingTypeId,
     hostTimezone: HOST_TIMEZONE,
+    durationMinutes: durationMinutes ?? meetingType?.durationMinutes,
     date,
     slots,
     source: availability.source,
@@ -23,4 +39,3 @@ export async function GET(request: Request) {
       : {}),
   });
 }
-
@@ -1,7 +1,7 @@
 'use client';
 
 import type { FormEvent, ReactNode } from 'react';
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import clsx from 'clsx';
 import { useRouter } from 'next/navigation';
 import {
@@ -24,7 +24,8 @@ import {
   GUEST_TIMEZONE_OPTIONS,
   MeetingType,
   UtcSlot,
-} from '@/lib/slots';
+  getDurationOptions,
+} from '@/lib/meeting-types';
 import { cloneAvailabilityMap, createDateFromLabel, formatSlotRange } from '../shared';
 import { LegendDot, SummaryRow } from '../shared-ui';
 
@@ -105,27 +106,47 @@ export default function BookingClient({
   const [refreshState, setRefreshState] = useState<RefreshStatus>({ status: 'idle' });
   const [submitStatus, setSubmitStatus] = useState<SubmitStatus>({ status: 'idle' });
   const [currentBooking, setCurrentBooking] = useState<UtcSlot | null>(existingSlot);
+  const [durationMinutes, setDurationMinutes] = useState<number>(() => {
+    if (!existingSlot) {
+      return meetingType.durationMinutes;
+    }
+
+    const bookedMinutes = (Date.parse(existingSlot.end) - Date.parse(existingSlot.start)) / 60000;
+    return Number.isFinite(bookedMinutes) && bookedMinutes > 0 ? bookedMinutes : meetingType.durationMinutes;
+  });
+  const durationRequestRef = useRef<AbortController | null>(null);
+  const durationOptions = useMemo(() => getDurationOptions(meetingType), [meetingType]);
+  const showDurationPicker = !isReschedule && durationOptions.length > 1;
 
   const currentBookingStart = currentBooking?.start ?? null;
   const defaultGuestName = guestInfo?.name ?? '';
   const defaultGuestEmail = guestInfo?.email ?? '';
 
+  useEffect(() => {
+    // Leaving the page drops whichever availability request is still in flight.
+    return () => durationRequestRef.current?.abort();
+  }, []);
+
   useEffect(() => {
     if (!isReschedule || !currentBookingStart) {
       return;
     }
 
+    const currentStartMs = Date.parse(currentBookingStart);
+
     setAvailability((prev) => {
-      const dateKey = currentBookingStart.slice(0, 10);
-      const slots = prev[dateKey] ?? [];
+      const entry = Object.entries(prev).find(([, slots]) =>
+        slots.some((slot) => Date.parse(slot.start) === currentStartMs),
+      );
 
-      if (!slots.some((slot) => slot.start === currentBookingStart)) {
+      if (!entry) {
         return prev;
       }
 
+      const [dateKey, slots] = entry;
       return {
         ...prev,
-        [dateKey]: slots.filter((slot) => slot.start !== currentBookingStart),
+        [dateKey]: slots.filter((slot) => Date.parse(slot.start) !== currentStartMs),
       };
     });
   }, [isReschedule, currentBookingStart]);
@@ -228,6 +249,8 @@ export default function BookingClient({
 
     let isMounted = true;
     const controller = new AbortController();
+    // Picking another meeting length aborts this refresh so it cannot overwrite that length's slots.
+    durationRequestRef.current = controller;
 
     const refreshAvailability = async () => {
       try {
@@ -235,7 +258,7 @@ export default function BookingClient({
 
         const endpoint = isReschedule
           ? `/api/reschedule?token=${encodeURIComponent(rescheduleToken ?? '')}`
-          : `/api/slots?meetingTypeId=${meetingType.id}`;
+          : `/api/slots?meetingTypeId=${meetingType.id}&duration=${meetingType.durationMinutes}`;
 
         const response = await fetch(endpoint, {
           signal: controller.signal,
@@ -295,7 +318,7 @@ export default function BookingClient({
       isMounted = false;
       controller.abort();
     };
-  }, [initialFallback, initialSource, isReschedule, meetingType.id, rescheduleToken]);
+  }, [initialFallback, initialSource, isReschedule, meetingType.id, meetingType.durationMinutes, rescheduleToken]);
 
   const monthDays = useMemo(() => {
     const monthStart = startOfMonth(currentMonth);
@@ -316,6 +339,53 @@ export default function BookingClient({
     resetSubmissionFeedback();
   };
 
+  const handleDurationChange = async (nextDuration: number) => {
+    if (nextDuration === durationMinutes) {
+      return;
+    }
+
+    durationRequestRef.current?.abort();
+    const controller = new AbortController();
+    durationRequestRef.current = controller;
+
+    setDurationMinutes(nextDuration);
+    setSelectedSlotStart(null);
+    resetSubmissionFeedback();
+
+    try {
+      setRefreshState({ status: 'refreshing' });
+
+      const response = await fetch(
+        `/api/slots?meetingTypeId=${meetingType.id}&duration=${nextDuration}`,
+        { signal: controller.signal },
+      );
+      const data = await response.json().catch(() => null);
+
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      if (!response.ok || !data || Array.isArray(data.slots) || !data.slots) {
+        throw new Error(data?.message ?? 'Failed to load availability for that meeting length.');
+      }
+
+      setAvailability(cloneAvailabilityMap(data.slots as AvailabilityByDate));
+      setDataSource({
+        source: (data.source as 'google' | 'mock') ?? 'google',
+        fallback: Boolean(data.fallback),
+      });
+      setRefreshState({ status: 'idle' });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return;
+      }
+
+      const message =
+        error instanceof Error ? error.message : 'Unable to load availability for that meeting length.';
+      setRefreshState({ status: 'error', message });
+    }
+  };
+
   const submitBooking = async (values: BookingFormValues) => {
     if (!selectedSlot) return;
 
@@ -572,7 +642,33 @@ export default function BookingClient({
         </div>
         <div className="rounded-[var(--radius-md)] border border-slate-100 bg-slate-50/70 p-4 text-sm text-slate-600">
           <p className="font-medium text-slate-500">Meeting duration</p>
-          <p className="text-lg font-semibold text-slate-900">{meetingType.durationMinutes} minutes</p>
+          {showDurationPicker ? (
+            <div className="mt-2 flex flex-wrap gap-2" role="group" aria-label="Meeting duration">
+              {durationOptions.map((option) => {
+                const isActive = option === durationMinutes;
+
+                return (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => handleDurationChange(option)}
+                    aria-pressed={isActive}
+                    disabled={submitStatus.status === 'submitting'}
+                    className={clsx(
+                      'rounded-full border px-3 py-1 text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-sky-600',
+                      isActive
+                        ? 'border-transparent bg-sky-600 text-white shadow-md shadow-sky-600/25'
+                        : 'border-slate-200 bg-white text-slate-700 hover:border-sky-200 hover:bg-sky-50',
+                    )}
+                  >
+                    {option} min
+                  </button>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-lg font-semibold text-slate-900">{durationMinutes} minutes</p>
+          )}
           <p className="mt-2 text-xs uppercase tracking-[0.16em] text-slate-400">Host timezone</p>
           <p className="font-medium text-slate-600">{hostTimezone}</p>
         </div>
@@ -761,7 +857,7 @@ export default function BookingClient({
                     <span>
                       {startLabel}
                       <span className="ml-2 text-xs font-normal text-slate-500">
-                        {meetingType.durationMinutes} min
+                        {durationMinutes} min
                       </span>
                     </span>
                     <span className={clsx('text-xs font-medium', isActive ? 'text-white' : 'text-slate-500')}>
@@ -1,9 +1,9 @@
 import { Metadata } from "next";
 import { notFound } from "next/navigation";
 
+import type { MeetingType } from "@/lib/meeting-types";
 import {
   HOST_TIMEZONE,
-  MeetingType,
   getMeetingTypeById,
   getAvailabilityWithFallback,
 } from "@/lib/slots";
@@ -1,7 +1,7 @@
 import { format } from "date-fns";
 import { toZonedTime } from "date-fns-tz";
 
-import type { AvailabilityByDate, UtcSlot } from "@/lib/slots";
+import type { AvailabilityByDate, UtcSlot } from "@/lib/meeting-types";
 
 export function cloneAvailabilityMap(source: AvailabilityByDate): AvailabilityByDate {
   return Object.fromEntries(
@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
 
-import { deleteCalendarEvent, getGoogleCalendarIds, GoogleApiError } from "@/lib/google";
+import { invalidateAvailabilityCache } from "@/lib/availability-cache";
+import { CalendarProviderError } from "@/lib/calendar-provider";
+import { getCalendarProviderForHost } from "@/lib/calendar-providers";
+import { getDefaultHost } from "@/lib/hosts";
 import { decodeSignedLinkPayload, verifySignedLink } from "@/lib/sign";
 
 type CancelResponse = {
@@ -86,14 +89,15 @@ export async function POST(request: Request) {
     );
   }
 
-  const calendarId = decoded.calendarId ?? getGoogleCalendarIds()[0];
+  const calendarId = decoded.calendarId ?? getDefaultHost().calendarId;
 
   try {
-    const deleteResult = await deleteCalendarEvent({
+    const deleteResult = await getCalendarProviderForHost(verified.hostId).deleteEvent({
       calendarId,
       eventId: verified.eventId,
       sendUpdates: "all",
     });
+    invalidateAvailabilityCache();
 
     if (deleteResult.status === "not_found") {
       return NextResponse.json<CancelResponse>(
@@ -117,7 +121,7 @@ export async function POST(request: Request) {
       calendarId,
     });
   } catch (error) {
-    if (error instanceof GoogleApiError) {
+    if (error instanceof CalendarProviderError) {
       return NextResponse.json<CancelResponse>(
         {
           status: "google_error",
@@ -3,7 +3,7 @@ import { toZonedTime } from 'date-fns-tz';
 
 import { resolveAppBaseUrl, type HeaderSource } from '@/lib/url';
 import type { ManagementLinkCollection } from '@/lib/sign';
-import type { MeetingType } from '@/lib/slots';
+import type { MeetingType } from '@/lib/meeting-types';
 
 export type ManagePageProps = {
   params: Promise<{ token: string }>;
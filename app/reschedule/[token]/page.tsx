@@ -3,7 +3,7 @@ import { headers } from 'next/headers';
 
 import BookingClient from '@/app/book/[type]/BookingClient';
 import { resolveAppBaseUrl } from '@/lib/url';
-import type { AvailabilityByDate, MeetingType, UtcSlot } from '@/lib/slots';
+import type { AvailabilityByDate, MeetingType, UtcSlot } from '@/lib/meeting-types';
 
 export const revalidate = 0;
 
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  getAvailabilityCacheTtlMs,
+  getCachedAvailability,
+  invalidateAvailabilityCache,
+} from "@/lib/availability-cache";
+
+const key = {
+  meetingTypeId: "intro-30",
+  calendarIds: ["primary", "team"],
+  timeMin: new Date("2026-03-01T00:00:00.000Z"),
+  timeMax: new Date("2026-04-30T00:00:00.000Z"),
+};
+
+describe("availability cache", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-01T12:00:00.000Z"));
+    invalidateAvailabilityCache();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete process.env.AVAILABILITY_CACHE_TTL_SECONDS;
+  });
+
+  it("shares loads for the same meeting type and window until the TTL passes", async () => {
+    const load = vi.fn(async () => ({ busy: 1 }));
+
+    await Promise.all([
+      getCachedAvailability(key, load),
+      getCachedAvailability({ ...key, calendarIds: ["team", "primary"] }, load),
+    ]);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    await getCachedAvailability({ ...key, meetingTypeId: "demo" }, load);
+    await getCachedAvailability({ ...key, timeMax: new Date("2026-05-01T00:00:00.000Z") }, load);
+    expect(load).toHaveBeenCalledTimes(3);
+
+    vi.advanceTimersByTime(getAvailabilityCacheTtlMs());
+    await getCachedAvailability(key, load);
+    expect(load).toHaveBeenCalledTimes(4);
+  });
+
+  it("drops entries on invalidation and after failed loads", async () => {
+    const load = vi.fn(async () => "ok");
+    await getCachedAvailability(key, load);
+    invalidateAvailabilityCache();
+    await getCachedAvailability(key, load);
+    expect(load).toHaveBeenCalledTimes(2);
+
+    invalidateAvailabilityCache();
+    await expect(getCachedAvailability(key, () => Promise.reject(new Error("quota")))).rejects.toThrow("quota");
+    await expect(getCachedAvailability(key, load)).resolves.toBe("ok");
+  });
+
+  it("reads the TTL from the environment and disables caching at zero", async () => {
+    process.env.AVAILABILITY_CACHE_TTL_SECONDS = "0";
+    const load = vi.fn(async () => "ok");
+
+    await getCachedAvailability(key, load);
+    await getCachedAvailability(key, load);
+
+    expect(getAvailabilityCacheTtlMs()).toBe(0);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
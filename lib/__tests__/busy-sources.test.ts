@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/google", () => ({
+  getGoogleFreeBusy: vi.fn(),
+  listCalendarEvents: vi.fn(),
+}));
+
+import {
+  BusySourceConfigError,
+  collectBusyTimes,
+  createMockBusySource,
+  getConfiguredBusySources,
+  getUncoveredCalendarIds,
+  registerBusySourceFactory,
+  type BusySource,
+} from "@/lib/busy-sources";
+
+const query = {
+  timeMin: new Date("2026-03-01T00:00:00.000Z"),
+  timeMax: new Date("2026-03-08T00:00:00.000Z"),
+  calendarIds: ["primary", "team"],
+};
+
+function staticSource(id: string, busy: Record<string, { start: string; end: string }[]>): BusySource {
+  return { id, getBusy: vi.fn(async () => busy) };
+}
+
+describe("busy sources", () => {
+  afterEach(() => {
+    delete process.env.BUSY_SOURCES;
+  });
+
+  it("combines busy times from every source per calendar", async () => {
+    const combined = await collectBusyTimes(query, [
+      staticSource("a", { primary: [{ start: "2026-03-02T09:00:00.000Z", end: "2026-03-02T10:00:00.000Z" }] }),
+      staticSource("b", {
+        primary: [{ start: "2026-03-03T09:00:00.000Z", end: "2026-03-03T10:00:00.000Z" }],
+        other: [{ start: "2026-03-04T09:00:00.000Z", end: "2026-03-04T10:00:00.000Z" }],
+      }),
+    ]);
+
+    expect(combined).toEqual({
+      primary: [
+        { start: "2026-03-02T09:00:00.000Z", end: "2026-03-02T10:00:00.000Z" },
+        { start: "2026-03-03T09:00:00.000Z", end: "2026-03-03T10:00:00.000Z" },
+      ],
+      team: [],
+    });
+  });
+
+  it("only sends a provider-bound source its provider's calendars", async () => {
+    const google = { ...staticSource("google", {}), provider: "google" };
+    const caldav = { ...staticSource("caldav", {}), provider: "caldav", calendarIds: ["work"] };
+    const ics = staticSource("ics", {});
+    const calendarProviders = { primary: "google", team: "microsoft" };
+
+    await collectBusyTimes({ ...query, calendarProviders }, [google, caldav, ics]);
+
+    expect(google.getBusy).toHaveBeenCalledWith(expect.objectContaining({ calendarIds: ["primary"] }));
+    expect(caldav.getBusy).not.toHaveBeenCalled();
+    expect(ics.getBusy).toHaveBeenCalledWith(expect.objectContaining({ calendarIds: ["primary", "team"] }));
+    expect(getUncoveredCalendarIds([google, caldav, ics], { ...calendarProviders, work: "caldav", home: "caldav" })).toEqual([
+      "team",
+      "home",
+    ]);
+  });
+
+  it("builds configured sources and scopes them to their calendars", async () => {
+    const getBusy = vi.fn(async () => ({ team: [{ start: "2026-03-02T09:00:00.000Z", end: "2026-03-02T10:00:00.000Z" }] }));
+    registerBusySourceFactory("fixture", (config) => ({ id: config.id ?? "fixture", getBusy }));
+    process.env.BUSY_SOURCES = "fixture";
+
+    const [source] = getConfiguredBusySources({ hostTimezone: "UTC" });
+    await source.getBusy(query);
+
+    expect(source.id).toBe("fixture");
+    expect(getBusy).toHaveBeenCalledWith(query);
+  });
+
+  it("limits a configured source to its calendarIds", async () => {
+    vi.resetModules();
+    vi.doMock("@/config/app.settings.json", () => ({
+      default: { hostTimezone: "UTC", busySources: [{ type: "google" }, { type: "mock", calendarIds: ["team"] }] },
+    }));
+
+    try {
+      const { getConfiguredBusySources: getSources } = await import("@/lib/busy-sources");
+      const { getGoogleFreeBusy } = await import("@/lib/google");
+      vi.mocked(getGoogleFreeBusy).mockResolvedValue({ primary: [], team: [] });
+
+      const [google, mock] = getSources({ hostTimezone: "UTC" });
+      await google.getBusy(query);
+
+      expect(getGoogleFreeBusy).toHaveBeenCalledWith(query);
+      expect(Object.keys(await mock.getBusy(query))).toEqual(["team"]);
+      expect(await mock.getBusy({ ...query, calendarIds: ["primary"] })).toEqual({});
+    } finally {
+      vi.doUnmock("@/config/app.settings.json");
+      vi.resetModules();
+    }
+  });
+
+  it("blocks fixed times in the mock source", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-01T08:00:00.000Z"));
+
+    try {
+      const busy = await createMockBusySource({ hostTimezone: "UTC" }).getBusy(query);
+
+      expect(busy.primary).toEqual([
+        { start: "2026-03-03T09:00:00.000Z", end: "2026-03-03T09:30:00.000Z" },
+        { start: "2026-03-03T09:30:00.000Z", end: "2026-03-03T10:00:00.000Z" },
+        { start: "2026-03-03T10:00:00.000Z", end: "2026-03-03T10:30:00.000Z" },
+      ]);
+      expect(busy.team).toEqual(busy.primary);
+
+      const hourLong = await createMockBusySource({ hostTimezone: "UTC", meetingDurationMinutes: 60 }).getBusy(query);
+      expect(hourLong.primary?.[0]).toEqual({ start: "2026-03-03T09:00:00.000Z", end: "2026-03-03T10:00:00.000Z" });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("rejects unknown source types", () => {
+    process.env.BUSY_SOURCES = "google,exchange";
+
+    expect(() => getConfiguredBusySources({ hostTimezone: "UTC" })).toThrow(BusySourceConfigError);
+  });
+
+  it("validates event policies for google-events sources", async () => {
+    vi.resetModules();
+    vi.doMock("@/config/app.settings.json", () => ({
+      default: {
+        hostTimezone: "UTC",
+        busySources: [{ type: "google-events", calendarPolicies: { primary: { tentative: "maybe" } } }],
+      },
+    }));
+
+    try {
+      const { getConfiguredBusySources: getSources } = await import("@/lib/busy-sources");
+
+      expect(() => getSources({ hostTimezone: "UTC" })).toThrow(/calendarPolicies.primary.tentative/);
+    } finally {
+      vi.doUnmock("@/config/app.settings.json");
+      vi.resetModules();
+    }
+  });
+
+  it("requires a path or url for ICS sources", () => {
+    process.env.BUSY_SOURCES = "ics";
+
+    expect(() => getConfiguredBusySources({ hostTimezone: "UTC" })).toThrow(/path" or "url/);
+  });
+});
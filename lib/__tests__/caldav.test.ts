@@ -0,0 +1,314 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+import { CalDavError, createCalDavProvider } from "@/lib/caldav";
+import { CalendarProviderConfigError, type CalendarProvider } from "@/lib/calendar-provider";
+import { parseIcsComponents } from "@/lib/ics";
+
+const COLLECTION_PATH = "/dav/calendars/sam/work/";
+
+type StoredResource = { calendarData: string; etag: string };
+
+// A minimal CalDAV server: one collection, ETags, and naive time-range handling.
+function createCalDavStandIn() {
+  const resources = new Map<string, StoredResource>();
+  const requests: { method: string; path: string; authorization?: string; body: string }[] = [];
+  let revision = 0;
+  let privileges = ["read", "write"];
+
+  const server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk: Buffer) => (body += chunk.toString()));
+    request.on("end", () => {
+      const path = decodeURIComponent(request.url ?? "");
+      requests.push({ method: request.method ?? "", path, authorization: request.headers.authorization, body });
+
+      if (request.method === "PUT") {
+        const existing = resources.get(path);
+        const ifMatch = request.headers["if-match"];
+        if ((request.headers["if-none-match"] === "*" && existing) || (ifMatch && ifMatch !== existing?.etag)) {
+          response.writeHead(412).end();
+          return;
+        }
+
+        const etag = `"rev-${++revision}"`;
+        resources.set(path, { calendarData: body, etag });
+        response.writeHead(existing ? 204 : 201, { ETag: etag }).end();
+        return;
+      }
+
+      if (request.method === "GET" || request.method === "DELETE") {
+        const resource = resources.get(path);
+        if (!resource) {
+          response.writeHead(404).end();
+          return;
+        }
+
+        if (request.method === "DELETE") {
+          resources.delete(path);
+          response.writeHead(204).end();
+          return;
+        }
+
+        response.writeHead(200, { "Content-Type": "text/calendar", ETag: resource.etag }).end(resource.calendarData);
+        return;
+      }
+
+      if (request.method === "PROPFIND") {
+        response.writeHead(207, { "Content-Type": "application/xml" }).end(
+          `<d:multistatus xmlns:d="DAV:"><d:response><d:href>${path}</d:href><d:propstat><d:prop><d:current-user-privilege-set>${privileges
+            .map((privilege) => `<d:privilege><d:${privilege}/></d:privilege>`)
+            .join("")}</d:current-user-privilege-set></d:prop></d:propstat></d:response></d:multistatus>`,
+        );
+        return;
+      }
+
+      if (request.method === "REPORT") {
+        const events = [...resources].filter(([href]) => href.startsWith(path));
+
+        if (body.includes("free-busy-query")) {
+          const periods = events.flatMap(([, resource]) =>
+            parseIcsComponents(resource.calendarData, "VEVENT").map((properties) => {
+              const value = (name: string) => properties.find((property) => property.name === name)?.value;
+              return `${value("DTSTART")}/${value("DTEND")}`;
+            }),
+          );
+          response
+            .writeHead(200, { "Content-Type": "text/calendar" })
+            .end(
+              [
+                "BEGIN:VCALENDAR",
+                "BEGIN:VFREEBUSY",
+                ...periods.map((period) => `FREEBUSY:${period}`),
+                "FREEBUSY;FBTYPE=BUSY-TENTATIVE:20250106T200000Z/PT45M",
+                "FREEBUSY;FBTYPE=FREE:20250106T220000Z/20250106T230000Z",
+                "END:VFREEBUSY",
+                "END:VCALENDAR",
+              ].join("\r\n"),
+            );
+          return;
+        }
+
+        const escapeXml = (value: string) => value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+        response.writeHead(207, { "Content-Type": "application/xml" }).end(
+          `<?xml version="1.0"?><d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav">${events
+            .map(
+              ([href, resource]) =>
+                `<d:response><d:href>${href}</d:href><d:propstat><d:prop><d:getetag>${escapeXml(resource.etag)}</d:getetag><cal:calendar-data>${escapeXml(resource.calendarData)}</cal:calendar-data></d:prop></d:propstat></d:response>`,
+            )
+            .join("")}</d:multistatus>`,
+        );
+        return;
+      }
+
+      response.writeHead(405).end();
+    });
+  });
+
+  return {
+    server,
+    resources,
+    requests,
+    setPrivileges: (next: string[]) => {
+      privileges = next;
+    },
+  };
+}
+
+describe("caldav provider", () => {
+  const standIn = createCalDavStandIn();
+  let server: Server;
+  let provider: CalendarProvider;
+
+  beforeAll(async () => {
+    server = standIn.server;
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    provider = createCalDavProvider({
+      url: `http://127.0.0.1:${port}/dav/calendars/sam`,
+      username: "sam",
+      password: "app-password",
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    standIn.resources.clear();
+    standIn.requests.length = 0;
+    standIn.setPrivileges(["read", "write"]);
+  });
+
+  it("creates, reads, lists, updates and deletes booking events", async () => {
+    const created = await provider.createEvent({
+      calendarId: "work",
+      summary: "Intro call, with Jo",
+      description: "Notes; line one\nline two",
+      start: "2025-01-06T17:00:00.000Z",
+      end: "2025-01-06T17:30:00.000Z",
+      attendees: [{ email: "jo@example.com", displayName: "Jo" }],
+      privateProperties: { bookedVia: "scheduler", meetingTypeId: "intro-30" },
+    });
+
+    const href = `${COLLECTION_PATH}${created.id}.ics`;
+    expect(standIn.resources.has(href)).toBe(true);
+    expect(standIn.requests[0]?.authorization).toBe(`Basic ${Buffer.from("sam:app-password").toString("base64")}`);
+    expect(standIn.resources.get(href)?.calendarData).toContain("SUMMARY:Intro call\\, with Jo");
+
+    const fetched = await provider.getEvent({ calendarId: "work", eventId: created.id });
+    expect(fetched).toMatchObject({
+      id: created.id,
+      start: "2025-01-06T17:00:00.000Z",
+      end: "2025-01-06T17:30:00.000Z",
+      attendees: [{ email: "jo@example.com" }],
+      privateProperties: { bookedVia: "scheduler", meetingTypeId: "intro-30" },
+      raw: { summary: "Intro call, with Jo", description: "Notes; line one\nline two" },
+    });
+
+    await provider.createEvent({
+      calendarId: "work",
+      summary: "Personal",
+      start: "2025-01-06T19:00:00.000Z",
+      end: "2025-01-06T19:30:00.000Z",
+    });
+    const listed = await provider.listEvents({
+      calendarId: "work",
+      timeMin: "2025-01-06T00:00:00.000Z",
+      timeMax: "2025-01-07T00:00:00.000Z",
+      privateProperties: { bookedVia: "scheduler" },
+    });
+    expect(listed.map((event) => event.id)).toEqual([created.id]);
+
+    // The server (or another client) has since set an organizer and revised the event twice.
+    const stored = standIn.resources.get(href)!;
+    expect(stored.calendarData).toContain("SEQUENCE:0");
+    standIn.resources.set(href, {
+      ...stored,
+      calendarData: stored.calendarData.replace("SEQUENCE:0", "SEQUENCE:2\r\nORGANIZER;CN=Sam:mailto:sam@example.com"),
+    });
+
+    const updated = await provider.updateEvent({
+      calendarId: "work",
+      eventId: created.id,
+      start: "2025-01-07T17:00:00.000Z",
+      end: "2025-01-07T17:30:00.000Z",
+    });
+    expect(updated).toMatchObject({
+      start: "2025-01-07T17:00:00.000Z",
+      privateProperties: { bookedVia: "scheduler", meetingTypeId: "intro-30" },
+      raw: { summary: "Intro call, with Jo", sequence: 3 },
+    });
+    expect(standIn.requests.at(-1)).toMatchObject({ method: "PUT", path: href });
+    expect(standIn.resources.get(href)?.calendarData).toContain("ORGANIZER;CN=Sam:mailto:sam@example.com");
+
+    // Edits that keep the time do not bump the sequence.
+    await provider.updateEvent({
+      calendarId: "work",
+      eventId: created.id,
+      start: "2025-01-07T17:00:00.000Z",
+      end: "2025-01-07T17:30:00.000Z",
+      summary: "Intro call",
+    });
+    expect(standIn.resources.get(href)?.calendarData).toContain("SEQUENCE:3");
+
+    await expect(provider.deleteEvent({ calendarId: "work", eventId: created.id })).resolves.toEqual({ status: "deleted" });
+    await expect(provider.deleteEvent({ calendarId: "work", eventId: created.id })).resolves.toEqual({
+      status: "not_found",
+    });
+    await expect(provider.getEvent({ calendarId: "work", eventId: created.id })).rejects.toMatchObject({
+      name: "CalDavError",
+      status: 404,
+    });
+  });
+
+  it("reports busy periods from a free-busy query", async () => {
+    await provider.createEvent({
+      calendarId: "work",
+      summary: "Existing",
+      start: "2025-01-06T17:00:00.000Z",
+      end: "2025-01-06T18:00:00.000Z",
+    });
+
+    const busy = await provider.getFreeBusy({
+      timeMin: new Date("2025-01-06T00:00:00.000Z"),
+      timeMax: new Date("2025-01-07T00:00:00.000Z"),
+      calendarIds: ["work"],
+    });
+
+    expect(busy).toEqual({
+      work: [
+        { start: "2025-01-06T17:00:00.000Z", end: "2025-01-06T18:00:00.000Z" },
+        { start: "2025-01-06T20:00:00.000Z", end: "2025-01-06T20:45:00.000Z" },
+      ],
+    });
+    expect(standIn.requests.at(-1)?.body).toContain('<C:time-range start="20250106T000000Z" end="20250107T000000Z"/>');
+  });
+
+  it("rejects stale updates and read-only calendars", async () => {
+    const created = await provider.createEvent({
+      calendarId: "work",
+      summary: "Intro",
+      start: "2025-01-06T17:00:00.000Z",
+      end: "2025-01-06T17:30:00.000Z",
+    });
+    const href = `${COLLECTION_PATH}${created.id}.ics`;
+    const { port } = server.address() as AddressInfo;
+
+    // Someone edits the event between our read and our write.
+    const racing = createCalDavProvider({
+      url: `http://127.0.0.1:${port}/dav/calendars/sam/`,
+      fetchImpl: async (input, init) => {
+        const response = await fetch(input, init);
+        if (init?.method === "GET") {
+          standIn.resources.set(href, { ...standIn.resources.get(href)!, etag: '"changed-elsewhere"' });
+        }
+        return response;
+      },
+    });
+
+    await expect(
+      racing.updateEvent({
+        calendarId: "work",
+        eventId: created.id,
+        start: "2025-01-07T17:00:00.000Z",
+        end: "2025-01-07T17:30:00.000Z",
+      }),
+    ).rejects.toMatchObject({ name: "CalDavError", status: 409 });
+
+    await expect(provider.assertWritable("work")).resolves.toBeUndefined();
+
+    standIn.setPrivileges(["read"]);
+    await expect(provider.assertWritable("shared")).rejects.toBeInstanceOf(CalendarProviderConfigError);
+  });
+
+  it("surfaces failed writes as provider errors", async () => {
+    const failing = createCalDavProvider({
+      url: "https://dav.example.com/calendars/sam/",
+      fetchImpl: async () => new Response("quota exceeded", { status: 507 }),
+    });
+
+    await expect(
+      failing.createEvent({
+        calendarId: "work",
+        summary: "Intro",
+        start: "2025-01-06T17:00:00.000Z",
+        end: "2025-01-06T17:30:00.000Z",
+      }),
+    ).rejects.toMatchObject({ status: 507, responseBody: "quota exceeded" });
+    await expect(failing.getEvent({ calendarId: "work", eventId: "evt" })).rejects.toBeInstanceOf(CalDavError);
+  });
+
+  it("reports a delete as done when the retry finds the event already gone", async () => {
+    const statuses = [503, 404];
+    const flaky = createCalDavProvider({
+      url: "https://dav.example.com/calendars/sam/",
+      fetchImpl: async () => new Response(null, { status: statuses.shift() ?? 404, headers: { "Retry-After": "0" } }),
+    });
+
+    await expect(flaky.deleteEvent({ calendarId: "work", eventId: "evt" })).resolves.toEqual({ status: "deleted" });
+    expect(statuses).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  createGoogleEventsBusySource,
+  DEFAULT_EVENT_POLICY,
+  getEventBusyRule,
+} from "@/lib/calendar-event-policy";
+import type { GoogleCalendarEvent } from "@/lib/google";
+
+function event(overrides: Partial<GoogleCalendarEvent>): GoogleCalendarEvent {
+  return {
+    id: "evt",
+    start: "2026-03-02T17:00:00.000Z",
+    end: "2026-03-02T18:00:00.000Z",
+    raw: {},
+    ...overrides,
+  };
+}
+
+function hostResponse(responseStatus: string) {
+  return [
+    { email: "guest@example.com", responseStatus: "accepted" },
+    { email: "host@example.com", self: true, responseStatus },
+  ];
+}
+
+describe("calendar event policies", () => {
+  it("applies the default policy to transparency and the host's response", () => {
+    const rule = (overrides: Partial<GoogleCalendarEvent>) => getEventBusyRule(event(overrides), DEFAULT_EVENT_POLICY);
+
+    expect(rule({})).toBe("busy");
+    expect(rule({ transparency: "transparent" })).toBe("free");
+    expect(rule({ attendees: hostResponse("declined") })).toBe("free");
+    expect(rule({ attendees: hostResponse("tentative") })).toBe("busy");
+    expect(rule({ attendees: hostResponse("accepted") })).toBe("busy");
+    expect(rule({ status: "cancelled" })).toBe("free");
+  });
+
+  it("always blocks out-of-office time and lets focus time be configured", () => {
+    const relaxed = { ...DEFAULT_EVENT_POLICY, transparent: "busy" as const, focusTime: "free" as const };
+
+    expect(getEventBusyRule(event({ eventType: "outOfOffice", transparency: "transparent" }), DEFAULT_EVENT_POLICY)).toBe(
+      "busy",
+    );
+    expect(getEventBusyRule(event({ eventType: "outOfOffice", attendees: hostResponse("declined") }), relaxed)).toBe(
+      "busy",
+    );
+    expect(getEventBusyRule(event({ eventType: "focusTime" }), DEFAULT_EVENT_POLICY)).toBe("busy");
+    expect(getEventBusyRule(event({ eventType: "focusTime" }), relaxed)).toBe("free");
+    expect(getEventBusyRule(event({ eventType: "workingLocation" }), relaxed)).toBe("free");
+  });
+
+  it("lists events per calendar and applies calendar-specific policies", async () => {
+    const listEvents = vi.fn(async ({ calendarId }: { calendarId: string }) =>
+      calendarId === "primary"
+        ? [
+            event({ id: "meeting" }),
+            event({ id: "hold", start: "2026-03-03T17:00:00.000Z", end: "2026-03-03T18:00:00.000Z", attendees: hostResponse("tentative") }),
+          ]
+        : [
+            event({ id: "hold", attendees: hostResponse("tentative") }),
+            event({ id: "vacation", start: "", end: "", startDate: "2026-03-04", endDate: "2026-03-05", eventType: "outOfOffice" }),
+          ],
+    );
+    const source = createGoogleEventsBusySource({
+      hostTimezone: "America/Los_Angeles",
+      calendarPolicies: { team: { tentative: "free" } },
+      listEvents,
+    });
+    const query = {
+      timeMin: new Date("2026-03-01T00:00:00.000Z"),
+      timeMax: new Date("2026-03-08T00:00:00.000Z"),
+      calendarIds: ["primary", "team"],
+    };
+
+    const busy = await source.getBusy(query);
+
+    expect(listEvents).toHaveBeenCalledWith({ calendarId: "team", timeMin: query.timeMin, timeMax: query.timeMax });
+    expect(busy).toEqual({
+      primary: [
+        { start: "2026-03-02T17:00:00.000Z", end: "2026-03-02T18:00:00.000Z" },
+        { start: "2026-03-03T17:00:00.000Z", end: "2026-03-03T18:00:00.000Z" },
+      ],
+      team: [{ start: "2026-03-04T08:00:00.000Z", end: "2026-03-05T08:00:00.000Z" }],
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/config/hosts.json", () => ({
+  default: [
+    { id: "alex", name: "Alex", calendarId: "alex@example.com" },
+    { id: "blair", name: "Blair", calendarId: "blair@example.com", provider: { type: "fake", label: "blair" } },
+  ],
+}));
+
+import { CalendarProviderConfigError, type CalendarProvider, type CalendarProviderConfig } from "@/lib/calendar-provider";
+import { getCalendarProviderForHost, registerCalendarProviderFactory } from "@/lib/calendar-providers";
+import { clearGoogleAccessTokenCache, createGoogleCalendarProvider } from "@/lib/google";
+
+const createdWith: CalendarProviderConfig[] = [];
+
+registerCalendarProviderFactory("fake", (config) => {
+  createdWith.push(config);
+  return { id: "fake" } as CalendarProvider;
+});
+
+describe("calendar providers", () => {
+  beforeEach(() => {
+    createdWith.length = 0;
+    clearGoogleAccessTokenCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("selects each host's configured provider and defaults the rest", () => {
+    expect(getCalendarProviderForHost("blair").id).toBe("fake");
+    expect(createdWith).toEqual([{ type: "fake", label: "blair" }]);
+
+    expect(getCalendarProviderForHost("alex").id).toBe("google");
+    expect(getCalendarProviderForHost("default").id).toBe("google");
+    expect(getCalendarProviderForHost("removed-host").id).toBe("google");
+
+    vi.stubEnv("CALENDAR_PROVIDER", "fake");
+    expect(getCalendarProviderForHost(undefined).id).toBe("fake");
+
+    vi.stubEnv("CALENDAR_PROVIDER", "exchange");
+    expect(() => getCalendarProviderForHost("alex")).toThrowError(CalendarProviderConfigError);
+  });
+
+  it("maps the Google provider's property filters onto extended property queries", async () => {
+    vi.stubEnv("GOOGLE_CLIENT_ID", "client");
+    vi.stubEnv("GOOGLE_CLIENT_SECRET", "secret");
+    vi.stubEnv("GOOGLE_REFRESH_TOKEN", "refresh");
+
+    const requestedUrls: URL[] = [];
+    const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+      const url = new URL(input.toString());
+      if (url.hostname === "oauth2.googleapis.com") {
+        return Response.json({ access_token: "access", token_type: "Bearer", expires_in: 3600 });
+      }
+
+      requestedUrls.push(url);
+      return Response.json({ items: [{ id: "evt-1", start: { dateTime: "2025-01-06T17:00:00Z" }, end: {} }] });
+    }) as unknown as typeof fetch;
+
+    const events = await createGoogleCalendarProvider(fetchMock).listEvents({
+      calendarId: "alex@example.com",
+      timeMin: "2025-01-06T00:00:00Z",
+      timeMax: "2025-01-07T00:00:00Z",
+      privateProperties: { bookedVia: "scheduler", meetingTypeId: "intro-30" },
+    });
+
+    expect(events.map((event) => event.id)).toEqual(["evt-1"]);
+    expect(requestedUrls[0]?.searchParams.getAll("privateExtendedProperty")).toEqual([
+      "bookedVia=scheduler",
+      "meetingTypeId=intro-30",
+    ]);
+  });
+});
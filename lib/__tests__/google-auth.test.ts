@@ -1,16 +1,27 @@
+import { createHash, generateKeyPairSync, verify } from "node:crypto";
+
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import {
+  assertCalendarWritable,
+  clearGoogleAccessTokenCache,
   createCalendarEvent,
+  createGoogleAuthorizationRequest,
   deleteCalendarEvent,
+  exchangeGoogleAuthorizationCode,
   getGoogleAccessToken,
   getGoogleCalendarIds,
   getGoogleFreeBusy,
   getGoogleHealth,
   getGoogleOAuthConfig,
+  getGoogleWriteCalendarId,
   GoogleAuthConfigError,
+  GoogleAuthError,
   GoogleApiError,
   GoogleCalendarConfigError,
+  GoogleSyncTokenExpiredError,
+  listCalendarEvents,
+  syncCalendarEvents,
   updateCalendarEvent,
 } from "@/lib/google";
 
@@ -20,6 +31,7 @@ describe("Google OAuth helper", () => {
   beforeEach(() => {
     process.env = { ...originalEnv };
     vi.restoreAllMocks();
+    clearGoogleAccessTokenCache();
   });
 
   afterEach(() => {
@@ -104,6 +116,52 @@ describe("Google OAuth helper", () => {
     expect(token.scope).toBe("https://www.googleapis.com/auth/calendar");
   });
 
+  it("builds a PKCE authorization request for offline access", () => {
+    process.env.GOOGLE_CLIENT_ID = "client";
+
+    const { url, state, codeVerifier } = createGoogleAuthorizationRequest("https://app.test/callback");
+    const params = new URL(url).searchParams;
+
+    expect(url.startsWith("https://accounts.google.com/o/oauth2/v2/auth?")).toBe(true);
+    expect(params.get("client_id")).toBe("client");
+    expect(params.get("redirect_uri")).toBe("https://app.test/callback");
+    expect(params.get("response_type")).toBe("code");
+    expect(params.get("access_type")).toBe("offline");
+    expect(params.get("state")).toBe(state);
+    expect(params.get("code_challenge_method")).toBe("S256");
+    expect(params.get("code_challenge")).toBe(createHash("sha256").update(codeVerifier).digest("base64url"));
+    expect(createGoogleAuthorizationRequest("https://app.test/callback").state).not.toBe(state);
+  });
+
+  it("exchanges an authorization code with its verifier for a refresh token", async () => {
+    process.env.GOOGLE_CLIENT_ID = "client";
+    process.env.GOOGLE_CLIENT_SECRET = "secret";
+
+    const fetchMock = vi.fn<(input: RequestInfo | URL, init?: RequestInit) => Promise<Response>>(async () =>
+      Response.json({ access_token: "access-token", expires_in: 3600, refresh_token: "new-refresh" }),
+    );
+
+    const token = await exchangeGoogleAuthorizationCode(
+      { code: "auth-code", codeVerifier: "verifier", redirectUri: "https://app.test/callback" },
+      fetchMock,
+    );
+
+    const params = new URLSearchParams((fetchMock.mock.calls[0]?.[1]?.body as string) ?? "");
+    expect(params.get("grant_type")).toBe("authorization_code");
+    expect(params.get("code")).toBe("auth-code");
+    expect(params.get("code_verifier")).toBe("verifier");
+    expect(params.get("redirect_uri")).toBe("https://app.test/callback");
+    expect(token.refreshToken).toBe("new-refresh");
+
+    fetchMock.mockResolvedValueOnce(Response.json({ access_token: "access-token", expires_in: 3600 }));
+    await expect(
+      exchangeGoogleAuthorizationCode(
+        { code: "auth-code", codeVerifier: "verifier", redirectUri: "https://app.test/callback" },
+        fetchMock,
+      ),
+    ).rejects.toBeInstanceOf(GoogleAuthError);
+  });
+
   it("fetches FreeBusy data with UTC boundaries", async () => {
     process.env.GOOGLE_CLIENT_ID = "client";
     process.env.GOOGLE_CLIENT_SECRET = "secret";
@@ -160,6 +218,36 @@ describe("Google OAuth helper", () => {
     ]);
   });
 
+  it("fails FreeBusy when Google cannot read one of the calendars", async () => {
+    process.env.GOOGLE_CLIENT_ID = "client";
+    process.env.GOOGLE_CLIENT_SECRET = "secret";
+    process.env.GOOGLE_REFRESH_TOKEN = "refresh";
+
+    const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url === "https://oauth2.googleapis.com/token") {
+        return Response.json({ access_token: "access", token_type: "Bearer", expires_in: 3600 });
+      }
+
+      return Response.json({
+        calendars: {
+          primary: { busy: [] },
+          "sam@caldav.example.com": { errors: [{ domain: "global", reason: "notFound" }], busy: [] },
+        },
+      });
+    }) as unknown as typeof fetch;
+
+    await expect(
+      getGoogleFreeBusy({
+        timeMin: "2025-01-01T00:00:00Z",
+        timeMax: "2025-01-02T00:00:00Z",
+        calendarIds: ["primary", "sam@caldav.example.com"],
+        fetchImpl: fetchMock,
+      }),
+    ).rejects.toMatchObject({ name: "GoogleApiError", message: expect.stringContaining("(notFound)") });
+  });
+
   it("creates calendar events with sendUpdates", async () => {
     process.env.GOOGLE_CLIENT_ID = "client";
     process.env.GOOGLE_CLIENT_SECRET = "secret";
@@ -228,6 +316,339 @@ describe("Google OAuth helper", () => {
     expect(fetchMock).toHaveBeenCalledTimes(2);
   });
 
+  it("reuses cached access tokens and shares one in-flight refresh", async () => {
+    process.env.GOOGLE_CLIENT_ID = "client";
+    process.env.GOOGLE_CLIENT_SECRET = "secret";
+    process.env.GOOGLE_REFRESH_TOKEN = "refresh";
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+
+    let issued = 0;
+    const fetchMock = vi.fn(async () => {
+      issued += 1;
+      return new Response(
+        JSON.stringify({ access_token: `access-${issued}`, token_type: "Bearer", expires_in: 3600 }),
+        { status: 200, headers: { "Content-Type": "application/json" } },
+      );
+    });
+
+    try {
+      const [first, second] = await Promise.all([getGoogleAccessToken(fetchMock), getGoogleAccessToken(fetchMock)]);
+      expect(first.accessToken).toBe("access-1");
+      expect(second).toBe(first);
+
+      vi.setSystemTime(new Date("2025-01-01T00:58:00.000Z"));
+      await expect(getGoogleAccessToken(fetchMock)).resolves.toBe(first);
+
+      vi.setSystemTime(new Date("2025-01-01T00:59:30.000Z"));
+      await expect(getGoogleAccessToken(fetchMock)).resolves.toMatchObject({ accessToken: "access-2" });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("refreshes the token and retries once when Google answers 401", async () => {
+    process.env.GOOGLE_CLIENT_ID = "client";
+    process.env.GOOGLE_CLIENT_SECRET = "secret";
+    process.env.GOOGLE_REFRESH_TOKEN = "refresh";
+
+    let issued = 0;
+    const authorizations: string[] = [];
+    const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url === "https://oauth2.googleapis.com/token") {
+        issued += 1;
+        return new Response(
+          JSON.stringify({ access_token: `access-${issued}`, token_type: "Bearer", expires_in: 3600 }),
+          { status: 200, headers: { "Content-Type": "application/json" } },
+        );
+      }
+
+      const authorization = (init?.headers as Record<string, string>).Authorization;
+      authorizations.push(authorization);
+      return authorization === "Bearer access-1"
+        ? new Response(JSON.stringify({ error: { message: "Invalid Credentials" } }), { status: 401 })
+        : new Response(JSON.stringify({ calendars: { primary: { busy: [] } } }), { status: 200 });
+    }) as unknown as typeof fetch;
+
+    await getGoogleAccessToken(fetchMock);
+    const busy = await getGoogleFreeBusy({
+      timeMin: "2025-01-01T00:00:00Z",
+      timeMax: "2025-01-02T00:00:00Z",
+      calendarIds: ["primary"],
+      fetchImpl: fetchMock,
+    });
+
+    expect(busy).toEqual({ primary: [] });
+    expect(authorizations).toEqual(["Bearer access-1", "Bearer access-2"]);
+  });
+
+  it("retries throttled reads with backoff and honors Retry-After", async () => {
+    process.env.GOOGLE_CLIENT_ID = "client";
+    process.env.GOOGLE_CLIENT_SECRET = "secret";
+    process.env.GOOGLE_REFRESH_TOKEN = "refresh";
+    vi.useFakeTimers();
+
+    const freeBusyResponses = [
+      new Response(JSON.stringify({ error: { message: "Rate Limit Exceeded" } }), {
+        status: 429,
+        headers: { "Retry-After": "2" },
+      }),
+      new Response(JSON.stringify({ error: { message: "Backend Error" } }), { status: 503 }),
+      new Response(JSON.stringify({ calendars: { primary: { busy: [] } } }), { status: 200 }),
+    ];
+    const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url === "https://oauth2.googleapis.com/token") {
+        return new Response(
+          JSON.stringify({ access_token: "access", token_type: "Bearer", expires_in: 3600 }),
+          { status: 200, headers: { "Content-Type": "application/json" } },
+        );
+      }
+
+      return freeBusyResponses.shift() ?? new Response("{}", { status: 500 });
+    }) as unknown as typeof fetch;
+
+    try {
+      const request = getGoogleFreeBusy({
+        timeMin: "2025-01-01T00:00:00Z",
+        timeMax: "2025-01-02T00:00:00Z",
+        calendarIds: ["primary"],
+        fetchImpl: fetchMock,
+      });
+
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await vi.runAllTimersAsync();
+
+      await expect(request).resolves.toEqual({ primary: [] });
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+
+      const failing = getGoogleFreeBusy({
+        timeMin: "2025-01-01T00:00:00Z",
+        timeMax: "2025-01-02T00:00:00Z",
+        calendarIds: ["primary"],
+        fetchImpl: fetchMock,
+      });
+      const assertion = expect(failing).rejects.toMatchObject({ status: 500 });
+      await vi.runAllTimersAsync();
+      await assertion;
+      expect(fetchMock).toHaveBeenCalledTimes(8);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("retries event inserts with a client-supplied ID and recovers from duplicate conflicts", async () => {
+    process.env.GOOGLE_CLIENT_ID = "client";
+    process.env.GOOGLE_CLIENT_SECRET = "secret";
+    process.env.GOOGLE_REFRESH_TOKEN = "refresh";
+    vi.useFakeTimers();
+
+    const insertedIds: string[] = [];
+    const insertResponses = [
+      new Response(JSON.stringify({ error: { message: "Backend Error" } }), { status: 502 }),
+      new Response(JSON.stringify({ error: { message: "The requested identifier already exists." } }), {
+        status: 409,
+      }),
+    ];
+    const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url === "https://oauth2.googleapis.com/token") {
+        return new Response(
+          JSON.stringify({ access_token: "access", token_type: "Bearer", expires_in: 3600 }),
+          { status: 200, headers: { "Content-Type": "application/json" } },
+        );
+      }
+
+      if (init?.method === "POST") {
+        insertedIds.push(JSON.parse(init.body as string).id);
+        return insertResponses.shift() as Response;
+      }
+
+      expect(url).toContain(`/events/${insertedIds[0]}`);
+      return new Response(
+        JSON.stringify({
+          id: insertedIds[0],
+          start: { dateTime: "2025-01-01T18:00:00Z" },
+          end: { dateTime: "2025-01-01T18:30:00Z" },
+        }),
+        { status: 200 },
+      );
+    }) as unknown as typeof fetch;
+
+    try {
+      const request = createCalendarEvent({
+        calendarId: "primary",
+        summary: "Intro",
+        start: "2025-01-01T18:00:00Z",
+        end: "2025-01-01T18:30:00Z",
+        fetchImpl: fetchMock,
+      });
+      await vi.runAllTimersAsync();
+
+      const event = await request;
+      expect(insertedIds).toHaveLength(2);
+      expect(insertedIds[0]).toMatch(/^[0-9a-v]{5,1024}$/);
+      expect(insertedIds[1]).toBe(insertedIds[0]);
+      expect(event.id).toBe(insertedIds[0]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("lists calendar events across pages with extended property filters", async () => {
+    process.env.GOOGLE_CLIENT_ID = "client";
+    process.env.GOOGLE_CLIENT_SECRET = "secret";
+    process.env.GOOGLE_REFRESH_TOKEN = "refresh";
+
+    const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url === "https://oauth2.googleapis.com/token") {
+        return new Response(
+          JSON.stringify({ access_token: "access", token_type: "Bearer", expires_in: 3600 }),
+          { status: 200, headers: { "Content-Type": "application/json" } },
+        );
+      }
+
+      if (url.startsWith("https://www.googleapis.com/calendar/v3/calendars/primary/events")) {
+        const parsedUrl = new URL(url);
+        expect(parsedUrl.searchParams.get("singleEvents")).toBe("true");
+        expect(parsedUrl.searchParams.get("orderBy")).toBe("startTime");
+        expect(parsedUrl.searchParams.get("maxResults")).toBe("250");
+        expect(parsedUrl.searchParams.get("timeMin")).toBe("2025-01-01T00:00:00.000Z");
+        expect(parsedUrl.searchParams.getAll("privateExtendedProperty")).toEqual(["bookedVia=scheduler"]);
+
+        const isSecondPage = parsedUrl.searchParams.get("pageToken") === "page-2";
+
+        return new Response(
+          JSON.stringify({
+            items: [
+              isSecondPage
+                ? {
+                    id: "event-2",
+                    start: { date: "2025-01-02" },
+                    end: { date: "2025-01-03" },
+                    transparency: "transparent",
+                    eventType: "outOfOffice",
+                    attendees: [{ email: "host@example.com", self: true, responseStatus: "tentative" }],
+                  }
+                : {
+                    id: "event-1",
+                    start: { dateTime: "2025-01-01T18:00:00Z" },
+                    end: { dateTime: "2025-01-01T18:30:00Z" },
+                    extendedProperties: { private: { meetingTypeId: "intro-30" } },
+                  },
+            ],
+            ...(isSecondPage ? {} : { nextPageToken: "page-2" }),
+          }),
+          { status: 200, headers: { "Content-Type": "application/json" } },
+        );
+      }
+
+      throw new Error(`Unexpected fetch call to ${url}`);
+    }) as unknown as typeof fetch;
+
+    const events = await listCalendarEvents({
+      calendarId: "primary",
+      timeMin: "2025-01-01T00:00:00Z",
+      timeMax: "2025-01-08T00:00:00Z",
+      privateExtendedProperty: ["bookedVia=scheduler"],
+      maxResults: 250,
+      fetchImpl: fetchMock,
+    });
+
+    expect(events.map((event) => event.id)).toEqual(["event-1", "event-2"]);
+    expect(events[0]?.privateProperties).toEqual({ meetingTypeId: "intro-30" });
+    expect(events[1]).toMatchObject({
+      start: "",
+      startDate: "2025-01-02",
+      endDate: "2025-01-03",
+      transparency: "transparent",
+      eventType: "outOfOffice",
+      attendees: [{ email: "host@example.com", self: true, responseStatus: "tentative" }],
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("syncs calendar events with sync tokens", async () => {
+    process.env.GOOGLE_CLIENT_ID = "client";
+    process.env.GOOGLE_CLIENT_SECRET = "secret";
+    process.env.GOOGLE_REFRESH_TOKEN = "refresh";
+
+    const requestedUrls: URL[] = [];
+    const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url === "https://oauth2.googleapis.com/token") {
+        return new Response(
+          JSON.stringify({ access_token: "access", token_type: "Bearer", expires_in: 3600 }),
+          { status: 200, headers: { "Content-Type": "application/json" } },
+        );
+      }
+
+      const parsedUrl = new URL(url);
+      requestedUrls.push(parsedUrl);
+      const syncToken = parsedUrl.searchParams.get("syncToken");
+
+      if (syncToken === "expired") {
+        return new Response(JSON.stringify({ error: { message: "Sync token is no longer valid" } }), { status: 410 });
+      }
+
+      if (syncToken === "sync-1") {
+        return new Response(
+          JSON.stringify({
+            items: [{ id: "event-1", status: "cancelled" }],
+            nextSyncToken: "sync-2",
+          }),
+          { status: 200 },
+        );
+      }
+
+      const isSecondPage = parsedUrl.searchParams.get("pageToken") === "page-2";
+      return new Response(
+        JSON.stringify({
+          items: [
+            {
+              id: isSecondPage ? "event-2" : "event-1",
+              start: { dateTime: "2025-01-01T18:00:00Z" },
+              end: { dateTime: "2025-01-01T18:30:00Z" },
+            },
+          ],
+          ...(isSecondPage ? { nextSyncToken: "sync-1" } : { nextPageToken: "page-2" }),
+        }),
+        { status: 200 },
+      );
+    }) as unknown as typeof fetch;
+
+    const initial = await syncCalendarEvents({
+      calendarId: "primary",
+      timeMin: "2025-01-01T00:00:00Z",
+      fetchImpl: fetchMock,
+    });
+    expect(initial.events.map((event) => event.id)).toEqual(["event-1", "event-2"]);
+    expect(initial.nextSyncToken).toBe("sync-1");
+    expect(requestedUrls[0]?.searchParams.get("timeMin")).toBe("2025-01-01T00:00:00.000Z");
+
+    const incremental = await syncCalendarEvents({
+      calendarId: "primary",
+      syncToken: "sync-1",
+      timeMin: "2025-01-01T00:00:00Z",
+      fetchImpl: fetchMock,
+    });
+    expect(incremental).toMatchObject({ events: [{ id: "event-1", status: "cancelled" }], nextSyncToken: "sync-2" });
+    expect(requestedUrls[2]?.searchParams.has("timeMin")).toBe(false);
+
+    await expect(
+      syncCalendarEvents({ calendarId: "primary", syncToken: "expired", fetchImpl: fetchMock }),
+    ).rejects.toBeInstanceOf(GoogleSyncTokenExpiredError);
+  });
+
   it("deletes calendar events with sendUpdates", async () => {
     process.env.GOOGLE_CLIENT_ID = "client";
     process.env.GOOGLE_CLIENT_SECRET = "secret";
@@ -321,13 +742,19 @@ describe("Google OAuth helper", () => {
       throw new Error(`Unexpected fetch call to ${url}`);
     }) as unknown as typeof fetch;
 
-    await expect(
-      deleteCalendarEvent({
+    vi.useFakeTimers();
+    try {
+      const request = deleteCalendarEvent({
         calendarId: "primary",
         eventId: "event-123",
         fetchImpl: fetchMock,
-      }),
-    ).rejects.toBeInstanceOf(GoogleApiError);
+      });
+      const assertion = expect(request).rejects.toBeInstanceOf(GoogleApiError);
+      await vi.runAllTimersAsync();
+      await assertion;
+    } finally {
+      vi.useRealTimers();
+    }
   });
 
   it("updates calendar events with sendUpdates", async () => {
@@ -445,6 +872,10 @@ describe("Google OAuth helper", () => {
         });
       }
 
+      if (url === "https://www.googleapis.com/calendar/v3/users/me/calendarList/primary") {
+        return Response.json({ id: "primary", accessRole: "owner" });
+      }
+
       throw new Error(`Unexpected fetch call to ${url}`);
     }) as unknown as typeof fetch;
 
@@ -452,7 +883,204 @@ describe("Google OAuth helper", () => {
 
     expect(health.status).toBe("ok");
     expect(health.source).toBe("live");
-    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(health.strategy).toBe("oauth");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("checks conflict calendars separately from the calendar bookings are written to", async () => {
+    process.env.GOOGLE_CLIENT_ID = "client";
+    process.env.GOOGLE_CLIENT_SECRET = "secret";
+    process.env.GOOGLE_REFRESH_TOKEN = "refresh";
+    process.env.GOOGLE_CALENDAR_ID = "legacy@example.com";
+    process.env.GOOGLE_CHECK_CALENDAR_IDS = "alex@example.com, family@group.calendar.google.com";
+    process.env.GOOGLE_WRITE_CALENDAR_ID = "family@group.calendar.google.com";
+
+    let freeBusyItems: unknown;
+    const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url === "https://oauth2.googleapis.com/token") {
+        return Response.json({ access_token: "access", token_type: "Bearer", expires_in: 3600 });
+      }
+
+      if (url === "https://www.googleapis.com/calendar/v3/freeBusy") {
+        freeBusyItems = JSON.parse(init?.body as string).items;
+        return Response.json({ calendars: {} });
+      }
+
+      return Response.json({ accessRole: "reader" });
+    }) as unknown as typeof fetch;
+
+    const health = await getGoogleHealth(fetchMock);
+
+    expect(freeBusyItems).toEqual([{ id: "alex@example.com" }, { id: "family@group.calendar.google.com" }]);
+    expect(health.status).toBe("degraded");
+    expect(health.detail).toContain('calendar "family@group.calendar.google.com" (access role: reader)');
+
+    process.env.GOOGLE_WRITE_CALENDAR_ID = "alex@example.com";
+    await expect(assertCalendarWritable(getGoogleWriteCalendarId(), fetchMock)).rejects.toBeInstanceOf(
+      GoogleCalendarConfigError,
+    );
+  });
+
+  it("checks write access to every booking destination", async () => {
+    process.env.GOOGLE_CLIENT_ID = "client";
+    process.env.GOOGLE_CLIENT_SECRET = "secret";
+    process.env.GOOGLE_REFRESH_TOKEN = "refresh";
+    process.env.GOOGLE_CALENDAR_ID = "alex@example.com";
+
+    const accessRoles: Record<string, string> = {
+      "alex@example.com": "owner",
+      "alex-bookings@example.com": "writer",
+      "blair@example.com": "reader",
+    };
+    const checkedCalendars: string[] = [];
+    const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url === "https://oauth2.googleapis.com/token") {
+        return Response.json({ access_token: "access", token_type: "Bearer", expires_in: 3600 });
+      }
+
+      if (url === "https://www.googleapis.com/calendar/v3/freeBusy") {
+        return Response.json({ calendars: {} });
+      }
+
+      const calendarId = decodeURIComponent(url.split("/").pop() ?? "");
+      checkedCalendars.push(calendarId);
+      return Response.json({ accessRole: accessRoles[calendarId] });
+    }) as unknown as typeof fetch;
+
+    const healthy = await getGoogleHealth(fetchMock, {
+      getWriteCalendarIds: () => ["alex@example.com", "alex-bookings@example.com", "alex@example.com"],
+    });
+    expect(healthy).toMatchObject({ status: "ok" });
+    expect(healthy.detail).toContain("bookings go to alex@example.com, alex-bookings@example.com");
+    expect(checkedCalendars).toEqual(["alex@example.com", "alex-bookings@example.com"]);
+
+    const degraded = await getGoogleHealth(fetchMock, {
+      getWriteCalendarIds: () => ["alex@example.com", "blair@example.com"],
+    });
+    expect(degraded).toMatchObject({ status: "degraded" });
+    expect(degraded.detail).toContain('calendar "blair@example.com" (access role: reader)');
+  });
+
+  it("signs service account assertions that impersonate the calendar owner", async () => {
+    const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+    process.env.GOOGLE_AUTH_STRATEGY = "service-account";
+    process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL = "scheduler@project.iam.gserviceaccount.com";
+    process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY = privateKey
+      .export({ type: "pkcs8", format: "pem" })
+      .toString()
+      .replace(/\n/g, "\\n");
+    process.env.GOOGLE_SERVICE_ACCOUNT_SUBJECT = "admin@example.com";
+    process.env.GOOGLE_CALENDAR_ID = "alex@example.com";
+    delete process.env.GOOGLE_CLIENT_ID;
+
+    const subjects: string[] = [];
+    const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url === "https://oauth2.googleapis.com/token") {
+        const params = new URLSearchParams(init?.body as string);
+        expect(params.get("grant_type")).toBe("urn:ietf:params:oauth:grant-type:jwt-bearer");
+
+        const [header, claims, signature] = (params.get("assertion") ?? "").split(".");
+        expect(
+          verify("RSA-SHA256", Buffer.from(`${header}.${claims}`), publicKey, Buffer.from(signature, "base64url")),
+        ).toBe(true);
+
+        const decodedClaims = JSON.parse(Buffer.from(claims, "base64url").toString());
+        expect(decodedClaims).toMatchObject({
+          iss: "scheduler@project.iam.gserviceaccount.com",
+          scope: "https://www.googleapis.com/auth/calendar",
+          aud: "https://oauth2.googleapis.com/token",
+        });
+        expect(decodedClaims.exp - decodedClaims.iat).toBe(3600);
+        subjects.push(decodedClaims.sub);
+
+        return new Response(
+          JSON.stringify({ access_token: `access-${decodedClaims.sub}`, token_type: "Bearer", expires_in: 3600 }),
+          { status: 200, headers: { "Content-Type": "application/json" } },
+        );
+      }
+
+      if (url.startsWith("https://www.googleapis.com/calendar/v3/users/me/calendarList/")) {
+        return Response.json({ accessRole: "owner" });
+      }
+
+      return new Response(JSON.stringify({ calendars: { "alex@example.com": { busy: [] } } }), { status: 200 });
+    }) as unknown as typeof fetch;
+
+    const health = await getGoogleHealth(fetchMock);
+    await getGoogleAccessToken(fetchMock, "team@group.calendar.google.com");
+    await getGoogleAccessToken(fetchMock, "alex@example.com");
+
+    expect(health).toMatchObject({ status: "ok", strategy: "service-account" });
+    expect(subjects).toEqual(["alex@example.com", "admin@example.com"]);
+  });
+
+  it("queries FreeBusy once per impersonated user", async () => {
+    const { privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+    process.env.GOOGLE_AUTH_STRATEGY = "service-account";
+    process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL = "scheduler@project.iam.gserviceaccount.com";
+    process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+    process.env.GOOGLE_SERVICE_ACCOUNT_SUBJECT = "admin@example.com";
+
+    const requests: { authorization?: string; items: string[] }[] = [];
+    const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = typeof input === "string" ? input : input.toString();
+
+      if (url === "https://oauth2.googleapis.com/token") {
+        const claims = (new URLSearchParams(init?.body as string).get("assertion") ?? "").split(".")[1];
+        const { sub } = JSON.parse(Buffer.from(claims, "base64url").toString());
+        return Response.json({ access_token: `access-${sub}`, token_type: "Bearer", expires_in: 3600 });
+      }
+
+      const items = (JSON.parse(init?.body as string).items as { id: string }[]).map((item) => item.id);
+      requests.push({ authorization: (init?.headers as Record<string, string>).Authorization, items });
+      return Response.json({
+        calendars: Object.fromEntries(
+          items.map((id) => [id, { busy: [{ start: "2025-01-01T17:00:00Z", end: "2025-01-01T17:30:00Z" }] }]),
+        ),
+      });
+    }) as unknown as typeof fetch;
+
+    const result = await getGoogleFreeBusy({
+      timeMin: "2025-01-01T00:00:00Z",
+      timeMax: "2025-01-02T00:00:00Z",
+      calendarIds: ["alex@example.com", "team@group.calendar.google.com", "sam@example.com", "primary"],
+      fetchImpl: fetchMock,
+    });
+
+    expect(requests).toHaveLength(3);
+    expect(requests).toEqual(
+      expect.arrayContaining([
+        { authorization: "Bearer access-alex@example.com", items: ["alex@example.com"] },
+        { authorization: "Bearer access-admin@example.com", items: ["team@group.calendar.google.com", "primary"] },
+        { authorization: "Bearer access-sam@example.com", items: ["sam@example.com"] },
+      ]),
+    );
+    expect(Object.keys(result).sort()).toEqual([
+      "alex@example.com",
+      "primary",
+      "sam@example.com",
+      "team@group.calendar.google.com",
+    ]);
+  });
+
+  it("requires a subject for service account access to shared calendars", async () => {
+    process.env.GOOGLE_AUTH_STRATEGY = "service-account";
+    process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL = "scheduler@project.iam.gserviceaccount.com";
+    process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY = "unused";
+    delete process.env.GOOGLE_SERVICE_ACCOUNT_SUBJECT;
+
+    await expect(getGoogleAccessToken(fetch, "primary")).rejects.toMatchObject({
+      missingEnv: ["GOOGLE_SERVICE_ACCOUNT_SUBJECT"],
+    });
+
+    process.env.GOOGLE_AUTH_STRATEGY = "jwt";
+    await expect(getGoogleAccessToken(fetch)).rejects.toBeInstanceOf(GoogleAuthConfigError);
   });
 
   it("bubbles up calendar API failures", async () => {
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { getGoogleOAuthConfig } from "@/lib/google";
+import {
+  clearGoogleCredentialStoreCache,
+  clearStoredGoogleCredentials,
+  GoogleCredentialStoreError,
+  readStoredGoogleCredentials,
+  writeStoredGoogleCredentials,
+} from "@/lib/google-credential-store";
+
+describe("google-credential-store", () => {
+  let tempDir: string;
+  let storePath: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "google-credentials-test-"));
+    storePath = join(tempDir, "google-credentials.json");
+    vi.stubEnv("GOOGLE_CREDENTIAL_STORE_PATH", storePath);
+    vi.stubEnv("GOOGLE_CREDENTIAL_STORE_KEY", "store-key");
+    clearGoogleCredentialStoreCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("encrypts the refresh token at rest and reads it back", () => {
+    expect(readStoredGoogleCredentials()).toBeNull();
+
+    writeStoredGoogleCredentials({ refreshToken: "stored-refresh", scope: "calendar", connectedAt: 1000 });
+
+    expect(readFileSync(storePath, "utf8")).not.toContain("stored-refresh");
+    expect(readStoredGoogleCredentials()).toEqual({ refreshToken: "stored-refresh", scope: "calendar", connectedAt: 1000 });
+
+    clearStoredGoogleCredentials();
+    expect(readStoredGoogleCredentials()).toBeNull();
+  });
+
+  it("rejects a store written with a different key", () => {
+    writeStoredGoogleCredentials({ refreshToken: "stored-refresh", connectedAt: 1000 });
+    vi.stubEnv("GOOGLE_CREDENTIAL_STORE_KEY", "another-key");
+    clearGoogleCredentialStoreCache();
+
+    expect(() => readStoredGoogleCredentials()).toThrowError(GoogleCredentialStoreError);
+  });
+
+  it("reports a malformed store file as a store error", () => {
+    writeFileSync(storePath, "{ not json", "utf8");
+
+    expect(() => readStoredGoogleCredentials()).toThrowError(GoogleCredentialStoreError);
+  });
+
+  it("keeps credentials per calendar and falls back to the account-wide connection", () => {
+    writeStoredGoogleCredentials({ refreshToken: "shared-refresh", connectedAt: 1000 });
+    writeStoredGoogleCredentials({ refreshToken: "sam-refresh", connectedAt: 2000 }, "sam@example.com");
+    clearGoogleCredentialStoreCache();
+
+    expect(readStoredGoogleCredentials("sam@example.com")?.refreshToken).toBe("sam-refresh");
+    expect(readStoredGoogleCredentials("alex@example.com")?.refreshToken).toBe("shared-refresh");
+    expect(readStoredGoogleCredentials()?.refreshToken).toBe("shared-refresh");
+  });
+
+  it("reads the store file once until it is written again", () => {
+    writeStoredGoogleCredentials({ refreshToken: "stored-refresh", connectedAt: 1000 });
+    expect(readStoredGoogleCredentials()?.refreshToken).toBe("stored-refresh");
+
+    // Only writes through the store refresh the cached copy.
+    rmSync(storePath);
+    expect(readStoredGoogleCredentials()?.refreshToken).toBe("stored-refresh");
+
+    writeStoredGoogleCredentials({ refreshToken: "reconnected-refresh", connectedAt: 2000 });
+    expect(readStoredGoogleCredentials()?.refreshToken).toBe("reconnected-refresh");
+  });
+
+  it("prefers the stored refresh token over GOOGLE_REFRESH_TOKEN", () => {
+    vi.stubEnv("GOOGLE_CLIENT_ID", "client");
+    vi.stubEnv("GOOGLE_CLIENT_SECRET", "secret");
+    vi.stubEnv("GOOGLE_REFRESH_TOKEN", "env-refresh");
+
+    expect(getGoogleOAuthConfig().refreshToken).toBe("env-refresh");
+
+    writeStoredGoogleCredentials({ refreshToken: "stored-refresh", connectedAt: 1000 });
+
+    expect(getGoogleOAuthConfig()).toEqual({
+      clientId: "client",
+      clientSecret: "secret",
+      refreshToken: "stored-refresh",
+    });
+  });
+});
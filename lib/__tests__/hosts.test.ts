@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/config/hosts.json", () => ({
+  default: [
+    { id: "alex", name: "Alex", email: "alex@work.example.com", calendarId: "alex@example.com", weight: 1 },
+    { id: "blair", name: "Blair", calendarId: "blair@example.com", weight: 3 },
+    { id: "casey", name: "Casey", calendarId: "casey@example.com", busyCalendarIds: ["casey@example.com", "family"] },
+  ],
+}));
+
+import {
+  getHostAttendees,
+  getHostBusyCalendarIds,
+  getHosts,
+  getMeetingTypeHosts,
+  HostConfigError,
+  selectRoundRobinHost,
+} from "@/lib/hosts";
+
+describe("host pools", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("resolves configured hosts for a meeting type in order", () => {
+    const hosts = getMeetingTypeHosts({
+      id: "demo",
+      title: "Demo",
+      durationMinutes: 30,
+      assignment: "round-robin",
+      hostIds: ["blair", "missing", "alex"],
+      isActive: true,
+    });
+
+    expect(hosts.map((host) => host.id)).toEqual(["blair", "alex"]);
+  });
+
+  it("invites every host of a collective meeting type", () => {
+    const meetingType = {
+      id: "panel",
+      title: "Panel",
+      durationMinutes: 60,
+      hostIds: ["alex", "blair"],
+      isActive: true,
+    };
+
+    expect(getHostAttendees({ ...meetingType, assignment: "collective" })).toEqual([
+      { email: "alex@work.example.com", displayName: "Alex" },
+      { email: "blair@example.com", displayName: "Blair" },
+    ]);
+    expect(getHostAttendees({ ...meetingType, assignment: "round-robin" })).toEqual([]);
+  });
+
+  it("checks every busy calendar a host lists", () => {
+    const [alex, , casey] = getHosts();
+
+    expect(getHostBusyCalendarIds(alex)).toEqual(["alex@example.com"]);
+    expect(getHostBusyCalendarIds(casey)).toEqual(["casey@example.com", "family"]);
+  });
+
+  it("writes default-host bookings to the write calendar while checking every check calendar", () => {
+    vi.stubEnv("GOOGLE_CALENDAR_ID", "legacy@example.com");
+    vi.stubEnv("GOOGLE_CHECK_CALENDAR_IDS", "personal@example.com,family@example.com");
+    vi.stubEnv("GOOGLE_WRITE_CALENDAR_ID", "work@example.com");
+
+    const [host] = getMeetingTypeHosts({ id: "intro", title: "Intro", durationMinutes: 30, isActive: true });
+
+    expect(host.calendarId).toBe("work@example.com");
+    expect(getHostBusyCalendarIds(host)).toEqual(["work@example.com", "personal@example.com", "family@example.com"]);
+  });
+
+  it("books a meeting type into its destination calendar", () => {
+    const meetingType = {
+      id: "office-hours",
+      title: "Office hours",
+      durationMinutes: 30,
+      hostIds: ["casey"],
+      destinationCalendarId: "casey-bookings@example.com",
+      isActive: true,
+    };
+
+    const [host] = getMeetingTypeHosts(meetingType);
+
+    expect(host.calendarId).toBe("casey-bookings@example.com");
+    expect(getHostBusyCalendarIds(host)).toEqual(["casey-bookings@example.com", "casey@example.com", "family"]);
+    expect(() => getMeetingTypeHosts({ ...meetingType, hostIds: ["alex", "casey"] })).toThrowError(HostConfigError);
+  });
+
+  it("picks the least recently booked host, preferring hosts never booked", () => {
+    const hosts = getHosts();
+
+    const selected = selectRoundRobinHost("least-recently-booked", hosts, {
+      lastBookedAt: {
+        alex: Date.parse("2025-01-02T10:00:00Z"),
+        blair: Date.parse("2025-01-01T10:00:00Z"),
+        casey: Date.parse("2025-01-03T10:00:00Z"),
+      },
+    });
+    const neverBooked = selectRoundRobinHost("least-recently-booked", hosts, {
+      lastBookedAt: { alex: Date.parse("2025-01-02T10:00:00Z") },
+    });
+
+    expect(selected?.id).toBe("blair");
+    expect(neverBooked?.id).toBe("blair");
+  });
+
+  it("distributes weighted picks by host weight", () => {
+    const [alex, blair] = getHosts();
+
+    expect(selectRoundRobinHost("weighted", [alex, blair], { random: () => 0.1 })?.id).toBe("alex");
+    expect(selectRoundRobinHost("weighted", [alex, blair], { random: () => 0.3 })?.id).toBe("blair");
+    expect(selectRoundRobinHost("weighted", [alex, blair], { random: () => 0.99 })?.id).toBe("blair");
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { createIcsBusySource, createIcsFetcher, IcsFetchError, parseIcsBusyTimes, parseIcsDuration } from "@/lib/ics";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const window = {
+  timeMin: new Date("2026-03-01T00:00:00.000Z"),
+  timeMax: new Date("2026-03-22T00:00:00.000Z"),
+  defaultTimezone: "America/New_York",
+};
+
+function calendar(...events: string[][]): string {
+  return ["BEGIN:VCALENDAR", "VERSION:2.0", ...events.flatMap((lines) => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]), "END:VCALENDAR"].join(
+    "\r\n",
+  );
+}
+
+describe("ICS busy times", () => {
+  it("reads single events in UTC, TZID and floating time", () => {
+    const ics = calendar(
+      ["UID:utc", "DTSTART:20260302T150000Z", "DTEND:20260302T160000Z"],
+      ["UID:berlin", "DTSTART;TZID=Europe/Berlin:20260303T090000", "DURATION:PT30M"],
+      ["UID:floating", "DTSTART:20260304T090000", "DTEND:20260304T093000"],
+      ["UID:outside", "DTSTART:20260401T090000Z", "DTEND:20260401T100000Z"],
+    );
+
+    expect(parseIcsBusyTimes(ics, window)).toEqual([
+      { start: "2026-03-02T15:00:00.000Z", end: "2026-03-02T16:00:00.000Z" },
+      { start: "2026-03-03T08:00:00.000Z", end: "2026-03-03T08:30:00.000Z" },
+      { start: "2026-03-04T14:00:00.000Z", end: "2026-03-04T14:30:00.000Z" },
+    ]);
+  });
+
+  it("maps Windows zone names and warns about TZIDs it cannot place", () => {
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const ics = calendar(
+      ["UID:outlook", "DTSTART;TZID=W. Europe Standard Time:20260303T090000", "DURATION:PT30M"],
+      ["UID:custom", "DTSTART;TZID=Contoso Standard Time:20260304T090000", "DTEND;TZID=Contoso Standard Time:20260304T093000"],
+    );
+
+    try {
+      expect(parseIcsBusyTimes(ics, window)).toEqual([
+        { start: "2026-03-03T08:00:00.000Z", end: "2026-03-03T08:30:00.000Z" },
+        { start: "2026-03-04T14:00:00.000Z", end: "2026-03-04T14:30:00.000Z" },
+      ]);
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('"Contoso Standard Time"'));
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+
+  it("reads signed and compound durations", () => {
+    expect(parseIcsDuration("P1W")).toBe(7 * DAY_MS);
+    expect(parseIcsDuration("PT1H30M")).toBe(90 * 60 * 1000);
+    expect(parseIcsDuration("-PT15M")).toBe(-15 * 60 * 1000);
+    expect(parseIcsDuration("soon")).toBe(0);
+  });
+
+  it("skips transparent and cancelled events and nested alarms", () => {
+    const ics = calendar(
+      ["UID:free", "DTSTART:20260302T150000Z", "DTEND:20260302T160000Z", "TRANSP:TRANSPARENT"],
+      ["UID:cancelled", "DTSTART:20260303T150000Z", "DTEND:20260303T160000Z", "STATUS:CANCELLED"],
+      [
+        "UID:busy",
+        "DTSTART:20260304T150000Z",
+        "BEGIN:VALARM",
+        "TRIGGER:-PT15M",
+        "DTSTART:20260304T120000Z",
+        "END:VALARM",
+        "DTEND:20260304T160000Z",
+        "TRANSP:OPAQUE",
+      ],
+    );
+
+    expect(parseIcsBusyTimes(ics, window)).toEqual([
+      { start: "2026-03-04T15:00:00.000Z", end: "2026-03-04T16:00:00.000Z" },
+    ]);
+  });
+
+  it("expands weekly recurrences across DST with exdates and moved instances", () => {
+    const ics = calendar(
+      [
+        "UID:standup",
+        "DTSTART;TZID=America/New_York:20260302T090000",
+        "DTEND;TZID=America/New_York:20260302T091500",
+        "RRULE:FREQ=WEEKLY;BYDAY=MO,TH;UNTIL=20260316T235959Z",
+        "EXDATE;TZID=America/New_York:20260305T090000",
+      ],
+      [
+        "UID:standup",
+        "RECURRENCE-ID;TZID=America/New_York:20260309T090000",
+        "DTSTART;TZID=America/New_York:20260309T110000",
+        "DTEND;TZID=America/New_York:20260309T111500",
+      ],
+    );
+
+    expect(parseIcsBusyTimes(ics, window)).toEqual([
+      { start: "2026-03-02T14:00:00.000Z", end: "2026-03-02T14:15:00.000Z" },
+      { start: "2026-03-09T15:00:00.000Z", end: "2026-03-09T15:15:00.000Z" },
+      { start: "2026-03-12T13:00:00.000Z", end: "2026-03-12T13:15:00.000Z" },
+      { start: "2026-03-16T13:00:00.000Z", end: "2026-03-16T13:15:00.000Z" },
+    ]);
+  });
+
+  it("expands daily, monthly and all-day recurrences", () => {
+    const ics = calendar(
+      ["UID:daily", "DTSTART:20260301T120000Z", "DURATION:PT1H", "RRULE:FREQ=DAILY;INTERVAL=7;COUNT=2"],
+      ["UID:monthly", "DTSTART:20260106T170000Z", "DURATION:PT1H", "RRULE:FREQ=MONTHLY;BYDAY=3TU"],
+      ["UID:offsite", "DTSTART;VALUE=DATE:20260101", "DTEND;VALUE=DATE:20260102", "RRULE:FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=20"],
+    );
+
+    expect(parseIcsBusyTimes(ics, window)).toEqual([
+      { start: "2026-03-01T12:00:00.000Z", end: "2026-03-01T13:00:00.000Z" },
+      { start: "2026-03-08T12:00:00.000Z", end: "2026-03-08T13:00:00.000Z" },
+      { start: "2026-03-17T17:00:00.000Z", end: "2026-03-17T18:00:00.000Z" },
+      { start: "2026-03-20T04:00:00.000Z", end: "2026-03-21T04:00:00.000Z" },
+    ]);
+  });
+
+  it("unfolds long lines and keeps recurring events from long ago", () => {
+    const ics = calendar([
+      "UID:old",
+      "DTSTART:20000302T150000Z",
+      "DTEND:20000302T1",
+      " 60000Z",
+      "RRULE:FREQ=DAILY",
+    ]);
+
+    const busy = parseIcsBusyTimes(ics, { ...window, timeMax: new Date("2026-03-03T00:00:00.000Z") });
+    expect(busy).toEqual([
+      { start: "2026-03-01T15:00:00.000Z", end: "2026-03-01T16:00:00.000Z" },
+      { start: "2026-03-02T15:00:00.000Z", end: "2026-03-02T16:00:00.000Z" },
+    ]);
+  });
+});
+
+describe("ICS busy source", () => {
+  it("uses the injected fetcher and reports busy times for every calendar", async () => {
+    const fetcher = vi.fn(async () => calendar(["UID:a", "DTSTART:20260302T150000Z", "DTEND:20260302T160000Z"]));
+    const source = createIcsBusySource({
+      id: "family",
+      location: { url: "https://example.com/family.ics" },
+      defaultTimezone: "UTC",
+      fetcher,
+    });
+
+    const busy = await source.getBusy({ ...window, calendarIds: ["primary", "team"] });
+
+    expect(fetcher).toHaveBeenCalledWith({ url: "https://example.com/family.ics" });
+    expect(busy.primary).toEqual([{ start: "2026-03-02T15:00:00.000Z", end: "2026-03-02T16:00:00.000Z" }]);
+    expect(busy.team).toEqual(busy.primary);
+  });
+
+  it("fetches feeds over HTTP and surfaces failures", async () => {
+    const fetchImpl = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("BEGIN:VCALENDAR\r\nEND:VCALENDAR", { status: 200 }))
+      .mockResolvedValueOnce(new Response("nope", { status: 404 }));
+    const fetcher = createIcsFetcher(fetchImpl);
+
+    await expect(fetcher({ url: "https://example.com/a.ics" })).resolves.toContain("VCALENDAR");
+    await expect(fetcher({ url: "https://example.com/a.ics" })).rejects.toBeInstanceOf(IcsFetchError);
+  });
+});
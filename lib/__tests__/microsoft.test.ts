@@ -0,0 +1,355 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  clearMicrosoftAccessTokenCache,
+  createMicrosoftCalendarProvider,
+  getMicrosoftFreeBusy,
+  getMicrosoftHealth,
+  MicrosoftGraphError,
+} from "@/lib/microsoft";
+
+type RecordedRequest = { method: string; url: URL; headers: Record<string, string>; body?: string };
+
+const TOKEN_RESPONSE = { token_type: "Bearer", expires_in: 3599, access_token: "graph-access" };
+
+const SCHEDULE_RESPONSE = {
+  value: [
+    {
+      scheduleId: "sam@contoso.com",
+      availabilityView: "0020",
+      scheduleItems: [
+        {
+          status: "busy",
+          start: { dateTime: "2025-01-06T17:00:00.0000000", timeZone: "UTC" },
+          end: { dateTime: "2025-01-06T17:30:00.0000000", timeZone: "UTC" },
+        },
+        {
+          status: "free",
+          start: { dateTime: "2025-01-06T18:00:00.0000000", timeZone: "UTC" },
+          end: { dateTime: "2025-01-06T19:00:00.0000000", timeZone: "UTC" },
+        },
+        {
+          status: "oof",
+          start: { dateTime: "2025-01-06T20:00:00.0000000", timeZone: "UTC" },
+          end: { dateTime: "2025-01-06T21:00:00.0000000", timeZone: "UTC" },
+        },
+      ],
+    },
+  ],
+};
+
+function graphEvent(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "AAMkAGI1",
+    webLink: "https://outlook.office365.com/owa/?itemid=AAMkAGI1",
+    createdDateTime: "2025-01-01T10:00:00.0000000Z",
+    isAllDay: false,
+    isCancelled: false,
+    showAs: "busy",
+    start: { dateTime: "2025-01-06T17:00:00.0000000", timeZone: "UTC" },
+    end: { dateTime: "2025-01-06T17:30:00.0000000", timeZone: "UTC" },
+    attendees: [{ emailAddress: { address: "jo@example.com" }, status: { response: "notResponded" } }],
+    onlineMeeting: null,
+    ...overrides,
+  };
+}
+
+// Serves recorded Graph and identity platform responses keyed by method and path.
+function createGraphStandIn(routes: Record<string, (request: RecordedRequest) => Response>) {
+  const requests: RecordedRequest[] = [];
+  const fetchImpl = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(input.toString());
+    const request: RecordedRequest = {
+      method: init?.method ?? "GET",
+      url,
+      headers: (init?.headers ?? {}) as Record<string, string>,
+      body: typeof init?.body === "string" ? init.body : undefined,
+    };
+    requests.push(request);
+
+    const route = routes[`${request.method} ${url.pathname}`];
+    return route ? route(request) : Response.json({ error: { code: "NotFound", message: "Not found" } }, { status: 404 });
+  });
+
+  return { fetchImpl, requests };
+}
+
+describe("microsoft graph calendar", () => {
+  beforeEach(() => {
+    clearMicrosoftAccessTokenCache();
+    vi.stubEnv("MICROSOFT_TENANT_ID", "contoso-tenant");
+    vi.stubEnv("MICROSOFT_CLIENT_ID", "client");
+    vi.stubEnv("MICROSOFT_CLIENT_SECRET", "secret");
+    vi.stubEnv("MICROSOFT_AUTH_STRATEGY", "");
+    vi.stubEnv("MICROSOFT_REFRESH_TOKEN", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("reads busy schedule items with client-credential auth", async () => {
+    const { fetchImpl, requests } = createGraphStandIn({
+      "POST /contoso-tenant/oauth2/v2.0/token": () => Response.json(TOKEN_RESPONSE),
+      "POST /v1.0/users/sam%40contoso.com/calendar/getSchedule": () => Response.json(SCHEDULE_RESPONSE),
+    });
+
+    const busy = await getMicrosoftFreeBusy({
+      timeMin: "2025-01-06T00:00:00Z",
+      timeMax: "2025-01-07T00:00:00Z",
+      calendarIds: ["sam@contoso.com"],
+      fetchImpl,
+    });
+
+    expect(busy).toEqual({
+      "sam@contoso.com": [
+        { start: "2025-01-06T17:00:00.000Z", end: "2025-01-06T17:30:00.000Z" },
+        { start: "2025-01-06T20:00:00.000Z", end: "2025-01-06T21:00:00.000Z" },
+      ],
+    });
+
+    const tokenBody = new URLSearchParams(requests[0]?.body);
+    expect(tokenBody.get("grant_type")).toBe("client_credentials");
+    expect(tokenBody.get("scope")).toBe("https://graph.microsoft.com/.default");
+    expect(requests[1]?.headers.Authorization).toBe("Bearer graph-access");
+    expect(JSON.parse(requests[1]?.body ?? "{}")).toMatchObject({
+      schedules: ["sam@contoso.com"],
+      startTime: { dateTime: "2025-01-06T00:00:00.000", timeZone: "UTC" },
+    });
+  });
+
+  it("creates Teams meetings tagged with scheduler properties and lists them back", async () => {
+    const joinUrl = "https://teams.microsoft.com/l/meetup-join/abc";
+    const { fetchImpl, requests } = createGraphStandIn({
+      "POST /contoso-tenant/oauth2/v2.0/token": () => Response.json(TOKEN_RESPONSE),
+      "POST /v1.0/users/sam%40contoso.com/calendar/events": () =>
+        Response.json(graphEvent({ isOnlineMeeting: true, onlineMeeting: { joinUrl } }), { status: 201 }),
+      "GET /v1.0/users/sam%40contoso.com/calendar/calendarView": ({ url }) =>
+        url.searchParams.has("$skiptoken")
+          ? Response.json({ value: [graphEvent({ id: "personal" })] })
+          : Response.json({
+              value: [
+                graphEvent({
+                  singleValueExtendedProperties: [
+                    {
+                      id: "String {6f1d8c2e-3b4a-4f5e-9a7b-2c8d1e0f4a6b} Name schedulerProperties",
+                      value: JSON.stringify({ bookedVia: "scheduler", meetingTypeId: "intro-30" }),
+                    },
+                  ],
+                }),
+              ],
+              "@odata.nextLink": `https://graph.microsoft.com/v1.0/users/sam%40contoso.com/calendar/calendarView?${url.searchParams}&$skiptoken=2`,
+            }),
+    });
+    const provider = createMicrosoftCalendarProvider({ teamsMeeting: true, fetchImpl });
+
+    const created = await provider.createEvent({
+      calendarId: "sam@contoso.com",
+      summary: "Intro call",
+      description: "Agenda",
+      start: "2025-01-06T17:00:00Z",
+      end: "2025-01-06T17:30:00Z",
+      attendees: [{ email: "jo@example.com", displayName: "Jo" }],
+      privateProperties: { bookedVia: "scheduler", meetingTypeId: "intro-30" },
+    });
+
+    expect(created).toMatchObject({
+      id: "AAMkAGI1",
+      hangoutLink: joinUrl,
+      start: "2025-01-06T17:00:00.000Z",
+      end: "2025-01-06T17:30:00.000Z",
+      attendees: [{ email: "jo@example.com", responseStatus: "needsAction" }],
+      privateProperties: { bookedVia: "scheduler", meetingTypeId: "intro-30" },
+    });
+    const createBody = JSON.parse(requests[1]?.body ?? "{}");
+    expect(createBody).toMatchObject({
+      subject: "Intro call",
+      isOnlineMeeting: true,
+      onlineMeetingProvider: "teamsForBusiness",
+      attendees: [{ emailAddress: { address: "jo@example.com", name: "Jo" }, type: "required" }],
+      start: { dateTime: "2025-01-06T17:00:00.000", timeZone: "UTC" },
+    });
+    expect(createBody.transactionId).toEqual(expect.any(String));
+
+    const events = await provider.listEvents({
+      calendarId: "sam@contoso.com",
+      timeMin: "2025-01-06T00:00:00Z",
+      timeMax: "2025-01-07T00:00:00Z",
+      privateProperties: { bookedVia: "scheduler" },
+    });
+
+    expect(events.map((event) => event.id)).toEqual(["AAMkAGI1"]);
+    expect(requests.filter((request) => request.url.pathname.endsWith("/calendarView"))).toHaveLength(2);
+  });
+
+  it("holds attendees back from a quiet create so the follow-up update sends the only invitation", async () => {
+    const { fetchImpl, requests } = createGraphStandIn({
+      "POST /contoso-tenant/oauth2/v2.0/token": () => Response.json(TOKEN_RESPONSE),
+      "POST /v1.0/users/sam%40contoso.com/calendar/events": () => Response.json(graphEvent({ attendees: [] })),
+      "PATCH /v1.0/users/sam%40contoso.com/events/AAMkAGI1": () => Response.json(graphEvent()),
+    });
+    const provider = createMicrosoftCalendarProvider({ fetchImpl });
+    const attendees = [{ email: "jo@example.com", displayName: "Jo" }];
+
+    const created = await provider.createEvent({
+      calendarId: "sam@contoso.com",
+      summary: "Intro call",
+      description: "Agenda",
+      start: "2025-01-06T17:00:00Z",
+      end: "2025-01-06T17:30:00Z",
+      attendees,
+      sendUpdates: "none",
+    });
+    await provider.updateEvent({
+      calendarId: "sam@contoso.com",
+      eventId: created.id,
+      start: created.start,
+      end: created.end,
+      attendees,
+      description: "Agenda\n\nManage: https://app.example.com/manage/abc",
+      sendUpdates: "all",
+    });
+
+    const [createRequest, updateRequest] = requests.filter((request) => !request.url.pathname.endsWith("/token"));
+    expect(JSON.parse(createRequest?.body ?? "{}").attendees).toEqual([]);
+    expect(JSON.parse(updateRequest?.body ?? "{}")).toMatchObject({
+      attendees: [{ emailAddress: { address: "jo@example.com", name: "Jo" }, type: "required" }],
+      body: { content: "Agenda\n\nManage: https://app.example.com/manage/abc" },
+    });
+  });
+
+  it("updates and deletes events with a rotated refresh token", async () => {
+    vi.stubEnv("MICROSOFT_AUTH_STRATEGY", "refresh-token");
+    vi.stubEnv("MICROSOFT_TENANT_ID", "");
+    vi.stubEnv("MICROSOFT_REFRESH_TOKEN", "refresh-1");
+
+    let tokenRequests = 0;
+    const { fetchImpl, requests } = createGraphStandIn({
+      "POST /common/oauth2/v2.0/token": () => {
+        tokenRequests += 1;
+        return Response.json({ ...TOKEN_RESPONSE, refresh_token: `refresh-${tokenRequests + 1}` });
+      },
+      "PATCH /v1.0/me/events/AAMkAGI1": () =>
+        Response.json(
+          graphEvent({
+            start: { dateTime: "2025-01-07T17:00:00.0000000", timeZone: "UTC" },
+            end: { dateTime: "2025-01-07T17:30:00.0000000", timeZone: "UTC" },
+          }),
+        ),
+      "DELETE /v1.0/me/events/AAMkAGI1": () =>
+        tokenRequests < 2 ? new Response(null, { status: 401 }) : new Response(null, { status: 204 }),
+    });
+    const provider = createMicrosoftCalendarProvider({ fetchImpl });
+
+    await expect(
+      provider.updateEvent({
+        calendarId: "me",
+        eventId: "AAMkAGI1",
+        start: "2025-01-07T17:00:00Z",
+        end: "2025-01-07T17:30:00Z",
+      }),
+    ).resolves.toMatchObject({ start: "2025-01-07T17:00:00.000Z" });
+    expect(JSON.parse(requests[1]?.body ?? "{}")).toEqual({
+      start: { dateTime: "2025-01-07T17:00:00.000", timeZone: "UTC" },
+      end: { dateTime: "2025-01-07T17:30:00.000", timeZone: "UTC" },
+    });
+
+    await expect(provider.deleteEvent({ calendarId: "me", eventId: "AAMkAGI1" })).resolves.toEqual({
+      status: "deleted",
+    });
+    const refreshTokensUsed = requests
+      .filter((request) => request.url.pathname.endsWith("/token"))
+      .map((request) => new URLSearchParams(request.body).get("refresh_token"));
+    expect(refreshTokensUsed).toEqual(["refresh-1", "refresh-2"]);
+
+    await expect(provider.deleteEvent({ calendarId: "me", eventId: "missing" })).resolves.toEqual({
+      status: "not_found",
+    });
+  });
+
+  it("treats a 404 after a retried delete as the earlier attempt having succeeded", async () => {
+    let deleteAttempts = 0;
+    const { fetchImpl } = createGraphStandIn({
+      "POST /contoso-tenant/oauth2/v2.0/token": () => Response.json(TOKEN_RESPONSE),
+      "DELETE /v1.0/users/sam%40contoso.com/events/AAMkAGI1": () =>
+        (deleteAttempts += 1) === 1
+          ? new Response(null, { status: 503, headers: { "Retry-After": "0" } })
+          : Response.json({ error: { code: "ErrorItemNotFound" } }, { status: 404 }),
+    });
+
+    await expect(
+      createMicrosoftCalendarProvider({ fetchImpl }).deleteEvent({ calendarId: "sam@contoso.com", eventId: "AAMkAGI1" }),
+    ).resolves.toEqual({ status: "deleted" });
+    expect(deleteAttempts).toBe(2);
+  });
+
+  it("reports health in the same shape as the Google check", async () => {
+    const hosts = { getCalendarIds: () => ["sam@contoso.com"] };
+    const routes = {
+      "POST /contoso-tenant/oauth2/v2.0/token": () => Response.json(TOKEN_RESPONSE),
+      "POST /v1.0/users/sam%40contoso.com/calendar/getSchedule": () => Response.json(SCHEDULE_RESPONSE),
+      "GET /v1.0/users/sam%40contoso.com/calendar": () => Response.json({ canEdit: true }),
+    };
+
+    await expect(getMicrosoftHealth(createGraphStandIn(routes).fetchImpl, hosts)).resolves.toEqual({
+      status: "ok",
+      detail: "Microsoft 365 calendar reachable (bookings go to sam@contoso.com) using client-credentials auth",
+      source: "live",
+      strategy: "client-credentials",
+    });
+
+    clearMicrosoftAccessTokenCache();
+    const readOnly = createGraphStandIn({
+      ...routes,
+      "GET /v1.0/users/sam%40contoso.com/calendar": () => Response.json({ canEdit: false }),
+    });
+    await expect(getMicrosoftHealth(readOnly.fetchImpl, hosts)).resolves.toMatchObject({ status: "degraded" });
+    await expect(getMicrosoftHealth(readOnly.fetchImpl, { getCalendarIds: () => [] })).resolves.toMatchObject({
+      status: "degraded",
+      detail: "No active meeting type books into a Microsoft 365 calendar.",
+    });
+
+    clearMicrosoftAccessTokenCache();
+    const rejected = createGraphStandIn({
+      "POST /contoso-tenant/oauth2/v2.0/token": () =>
+        Response.json(
+          { error: "invalid_client", error_description: "AADSTS7000215: Invalid client secret." },
+          { status: 401 },
+        ),
+    });
+    await expect(getMicrosoftHealth(rejected.fetchImpl, hosts)).resolves.toMatchObject({
+      status: "error",
+      detail: "invalid_client: AADSTS7000215: Invalid client secret.",
+    });
+
+    vi.stubEnv("MICROSOFT_CLIENT_SECRET", "");
+    await expect(getMicrosoftHealth(rejected.fetchImpl, hosts)).resolves.toMatchObject({
+      status: "degraded",
+      detail: "Missing required Microsoft environment variables: MICROSOFT_CLIENT_SECRET",
+    });
+  });
+
+  it("surfaces per-mailbox schedule errors instead of treating the mailbox as free", async () => {
+    const { fetchImpl } = createGraphStandIn({
+      "POST /contoso-tenant/oauth2/v2.0/token": () => Response.json(TOKEN_RESPONSE),
+      "POST /v1.0/users/sam%40contoso.com/calendar/getSchedule": () =>
+        Response.json({
+          value: [
+            {
+              scheduleId: "sam@contoso.com",
+              error: { message: "The mailbox was not found.", responseCode: "ErrorMailRecipientNotFound" },
+            },
+          ],
+        }),
+    });
+
+    await expect(
+      getMicrosoftFreeBusy({
+        timeMin: "2025-01-06T00:00:00Z",
+        timeMax: "2025-01-07T00:00:00Z",
+        calendarIds: ["sam@contoso.com"],
+        fetchImpl,
+      }),
+    ).rejects.toBeInstanceOf(MicrosoftGraphError);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { getRetryDelayMs, sendWithRetry } from "@/lib/retry";
+
+describe("retry", () => {
+  it("replays throttled requests until one succeeds", async () => {
+    const responses = [
+      new Response("slow down", { status: 429, headers: { "Retry-After": "2" } }),
+      new Response("unavailable", { status: 503 }),
+      new Response("ok", { status: 200 }),
+    ];
+    const dropped = responses.slice(0, 2);
+    const send = vi.fn(async () => responses.shift()!);
+    const delay = vi.fn(async () => {});
+
+    const { response, attempts } = await sendWithRetry(send, delay);
+
+    expect(response.status).toBe(200);
+    expect(attempts).toBe(3);
+    // Dropped responses are cancelled so their connections go back to the pool.
+    expect(dropped.map((retried) => retried.bodyUsed)).toEqual([true, true]);
+    expect(response.bodyUsed).toBe(false);
+    expect(delay).toHaveBeenCalledTimes(2);
+    expect(delay.mock.calls[0]).toEqual([2000]);
+  });
+
+  it("stops after the last retry and leaves client errors alone", async () => {
+    const delay = vi.fn(async () => {});
+
+    const exhausted = await sendWithRetry(async () => new Response(null, { status: 500 }), delay);
+    expect(exhausted).toMatchObject({ attempts: 4, response: { status: 500 } });
+    expect(delay).toHaveBeenCalledTimes(3);
+
+    delay.mockClear();
+    const rejected = await sendWithRetry(async () => new Response(null, { status: 400 }), delay);
+    expect(rejected.attempts).toBe(1);
+    expect(delay).not.toHaveBeenCalled();
+  });
+
+  it("honors Retry-After dates and caps the backoff", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-06T12:00:00.000Z"));
+    try {
+      const dated = new Response(null, { status: 503, headers: { "Retry-After": "Mon, 06 Jan 2025 12:00:03 GMT" } });
+      expect(getRetryDelayMs(dated, 1)).toBe(3000);
+
+      const distant = new Response(null, { status: 429, headers: { "Retry-After": "3600" } });
+      expect(getRetryDelayMs(distant, 1)).toBe(10_000);
+
+      const backoff = getRetryDelayMs(new Response(null, { status: 500 }), 3);
+      expect(backoff).toBeGreaterThanOrEqual(1000);
+      expect(backoff).toBeLessThanOrEqual(2000);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -1,20 +1,34 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-vi.mock("@/lib/google", () => ({
-  getGoogleFreeBusy: vi.fn(async () => ({})),
-}));
+vi.mock("@/lib/google", () => {
+  const listCalendarEvents = vi.fn(async () => []);
+  return {
+    getGoogleCheckCalendarIds: vi.fn(() => ["primary"]),
+    getGoogleWriteCalendarId: vi.fn(() => "primary"),
+    getGoogleFreeBusy: vi.fn(async () => ({})),
+    listCalendarEvents,
+    createGoogleCalendarProvider: () => ({ id: "google", listEvents: listCalendarEvents }),
+  };
+});
 
-import { getGoogleFreeBusy } from "@/lib/google";
+import type { CalendarProvider } from "@/lib/calendar-provider";
+import { getGoogleFreeBusy, listCalendarEvents } from "@/lib/google";
 
 const originalEnv = { ...process.env };
 const mockedFreeBusy = vi.mocked(getGoogleFreeBusy);
+const mockedListEvents = vi.mocked(listCalendarEvents);
 const FIXED_NOW = new Date("2025-01-01T16:00:00.000Z");
 
 describe("slot generation", () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     vi.useFakeTimers();
     vi.setSystemTime(FIXED_NOW);
+    // Other tests reset the module registry, so clear whichever cache instance slots will import.
+    const { invalidateAvailabilityCache } = await import("@/lib/availability-cache");
+    invalidateAvailabilityCache();
     mockedFreeBusy.mockReset();
+    mockedListEvents.mockReset();
+    mockedListEvents.mockResolvedValue([]);
     process.env = { ...originalEnv, TZ_DEFAULT_HOST: "America/Los_Angeles" };
   });
 
@@ -52,6 +66,589 @@ describe("slot generation", () => {
     expect(mockedFreeBusy).toHaveBeenCalledTimes(1);
   });
 
+  it("reuses cached busy time until the cache is invalidated", async () => {
+    mockedFreeBusy.mockResolvedValue({});
+
+    const { getAvailabilityByDate } = await import("@/lib/slots");
+    const { invalidateAvailabilityCache } = await import("@/lib/availability-cache");
+
+    await getAvailabilityByDate("intro-30");
+    await getAvailabilityByDate("intro-30");
+    expect(mockedFreeBusy).toHaveBeenCalledTimes(1);
+
+    await getAvailabilityByDate("intro-30", { skipCache: true });
+    expect(mockedFreeBusy).toHaveBeenCalledTimes(2);
+
+    invalidateAvailabilityCache();
+    await getAvailabilityByDate("intro-30");
+    expect(mockedFreeBusy).toHaveBeenCalledTimes(3);
+  });
+
+  it("checks slot bookability by instant rather than UTC date", async () => {
+    mockedFreeBusy.mockResolvedValue({
+      primary: [{ start: "2025-01-01T23:00:00.000Z", end: "2025-01-01T23:30:00.000Z" }],
+    });
+
+    const { getSlotBookability } = await import("@/lib/slots");
+
+    // 16:00 Pacific on Jan 1 is already Jan 2 in UTC.
+    const lateAfternoon = await getSlotBookability("intro-30", {
+      start: "2025-01-02T00:00:00.000Z",
+      end: "2025-01-02T00:30:00.000Z",
+    });
+    expect(lateAfternoon.bookable).toBe(true);
+    expect(lateAfternoon.hosts.map((host) => host.calendarId)).toEqual(["primary"]);
+
+    const offsetNotation = await getSlotBookability("intro-30", {
+      start: "2025-01-01T16:00:00-08:00",
+      end: "2025-01-01T16:30:00-08:00",
+    });
+    expect(offsetNotation.bookable).toBe(true);
+
+    const busy = await getSlotBookability("intro-30", {
+      start: "2025-01-01T23:00:00.000Z",
+      end: "2025-01-01T23:30:00.000Z",
+    });
+    expect(busy).toEqual({ bookable: false, hosts: [] });
+
+    const wrongLength = await getSlotBookability("intro-30", {
+      start: "2025-01-02T00:00:00.000Z",
+      end: "2025-01-02T00:15:00.000Z",
+    });
+    expect(wrongLength.bookable).toBe(false);
+  });
+
+  it("keeps the meeting type buffer clear around FreeBusy conflicts", async () => {
+    mockedFreeBusy.mockResolvedValueOnce({
+      primary: [
+        {
+          start: "2025-01-01T18:00:00.000Z",
+          end: "2025-01-01T18:30:00.000Z",
+        },
+      ],
+    });
+
+    const { getAvailabilityByDate } = await import("@/lib/slots");
+
+    const availability = await getAvailabilityByDate("intro-30");
+    const daySlots = availability["2025-01-01"] ?? [];
+
+    expect(daySlots.some((slot) => slot.start === "2025-01-01T17:30:00.000Z")).toBe(false);
+    expect(daySlots.some((slot) => slot.start === "2025-01-01T18:30:00.000Z")).toBe(true);
+  });
+
+  it("removes configured breaks from the working day", async () => {
+    const { getAvailabilityByDate } = await import("@/lib/slots");
+
+    const availability = await getAvailabilityByDate("intro-30");
+    const starts = (availability["2025-01-01"] ?? []).map((slot) => slot.start);
+
+    // intro-30's 15-minute buffer after 11:30-12:00 would run into the lunch break.
+    expect(starts).toContain("2025-01-01T19:00:00.000Z");
+    expect(starts).not.toContain("2025-01-01T19:30:00.000Z");
+    expect(starts).not.toContain("2025-01-01T20:00:00.000Z");
+    expect(starts).not.toContain("2025-01-01T20:30:00.000Z");
+    expect(starts).toContain("2025-01-01T21:00:00.000Z");
+  });
+
+  it("applies date overrides ahead of weekday rules", async () => {
+    vi.resetModules();
+    vi.doMock("@/config/availability.rules.json", () => ({
+      default: {
+        weekly: [
+          { weekday: "thursday", start: "09:00", end: "17:00" },
+          { weekday: "monday", start: "09:00", end: "17:00" },
+          { weekday: "tuesday", start: "09:00", end: "17:00" },
+        ],
+        overrides: [
+          { date: "2025-01-02", closed: true },
+          { date: "2025-01-04", start: "10:00", end: "11:00" },
+          { startDate: "2025-01-06", endDate: "2025-01-07", closed: true },
+        ],
+      },
+    }));
+
+    try {
+      const { getMockSlotsByDate } = await import("@/lib/slots");
+
+      const slotsByDate = getMockSlotsByDate("intro-30");
+
+      expect(slotsByDate["2025-01-02"]).toEqual([]);
+      expect(slotsByDate["2025-01-04"]).toEqual([
+        { start: "2025-01-04T18:00:00.000Z", end: "2025-01-04T18:30:00.000Z" },
+        { start: "2025-01-04T18:30:00.000Z", end: "2025-01-04T19:00:00.000Z" },
+      ]);
+      expect(slotsByDate["2025-01-06"]).toEqual([]);
+      expect(slotsByDate["2025-01-07"]).toEqual([]);
+      expect(slotsByDate["2025-01-09"]?.length).toBeGreaterThan(0);
+    } finally {
+      vi.doUnmock("@/config/availability.rules.json");
+      vi.resetModules();
+    }
+  });
+
+  it("generates slots across every working window of a weekday", async () => {
+    vi.resetModules();
+    vi.doMock("@/config/availability.rules.json", () => ({
+      default: {
+        weekly: [
+          { weekday: "thursday", start: "08:00", end: "09:00" },
+          { weekday: "thursday", start: "15:00", end: "16:00" },
+        ],
+      },
+    }));
+
+    try {
+      const { getMockSlotsByDate } = await import("@/lib/slots");
+
+      const starts = (getMockSlotsByDate("intro-30")["2025-01-02"] ?? []).map((slot) => slot.start);
+
+      expect(starts).toEqual([
+        "2025-01-02T16:00:00.000Z",
+        "2025-01-02T16:30:00.000Z",
+        "2025-01-02T23:00:00.000Z",
+        "2025-01-02T23:30:00.000Z",
+      ]);
+    } finally {
+      vi.doUnmock("@/config/availability.rules.json");
+      vi.resetModules();
+    }
+  });
+
+  it("starts slots on the meeting type interval instead of its duration", async () => {
+    vi.resetModules();
+    vi.doMock("@/config/availability.rules.json", () => ({
+      default: {
+        weekly: [{ weekday: "thursday", start: "09:00", end: "10:30" }],
+      },
+    }));
+    vi.doMock("@/config/meeting_types.json", () => ({
+      default: [
+        {
+          id: "strategy-45",
+          title: "Strategy Session",
+          durationMinutes: 45,
+          slotIntervalMinutes: 15,
+          isActive: true,
+        },
+      ],
+    }));
+
+    try {
+      const { getMockSlotsByDate } = await import("@/lib/slots");
+
+      const starts = (getMockSlotsByDate("strategy-45")["2025-01-02"] ?? []).map((slot) => slot.start);
+
+      expect(starts).toEqual([
+        "2025-01-02T17:00:00.000Z",
+        "2025-01-02T17:15:00.000Z",
+        "2025-01-02T17:30:00.000Z",
+        "2025-01-02T17:45:00.000Z",
+      ]);
+    } finally {
+      vi.doUnmock("@/config/availability.rules.json");
+      vi.doUnmock("@/config/meeting_types.json");
+      vi.resetModules();
+    }
+  });
+
+  it("builds slots for an alternate duration and rejects unlisted ones", async () => {
+    vi.resetModules();
+    vi.doMock("@/config/meeting_types.json", () => ({
+      default: [
+        {
+          id: "consult",
+          title: "Consultation",
+          durationMinutes: 30,
+          durationOptions: [15, 60],
+          isActive: true,
+        },
+      ],
+    }));
+
+    try {
+      const { getMeetingTypeById, getMockSlotsByDate } = await import("@/lib/slots");
+      const { getDurationOptions } = await import("@/lib/meeting-types");
+
+      const hourLong = getMockSlotsByDate("consult", { durationMinutes: 60 })["2025-01-02"] ?? [];
+
+      expect(getDurationOptions(getMeetingTypeById("consult")!)).toEqual([15, 30, 60]);
+      expect(hourLong.length).toBeGreaterThan(0);
+      expect(
+        hourLong.every((slot) => Date.parse(slot.end) - Date.parse(slot.start) === 60 * 60 * 1000),
+      ).toBe(true);
+      expect(getMockSlotsByDate("consult", { durationMinutes: 45 })).toEqual({});
+    } finally {
+      vi.doUnmock("@/config/meeting_types.json");
+      vi.resetModules();
+    }
+  });
+
+  it("uses the named schedule a meeting type points at", async () => {
+    vi.resetModules();
+    vi.doMock("@/config/meeting_types.json", () => ({
+      default: [
+        {
+          id: "office-hours",
+          title: "Office Hours",
+          durationMinutes: 30,
+          scheduleId: "fridays",
+          isActive: true,
+        },
+        {
+          id: "misconfigured",
+          title: "Misconfigured",
+          durationMinutes: 30,
+          scheduleId: "does-not-exist",
+          isActive: true,
+        },
+      ],
+    }));
+
+    try {
+      const { getMockSlotsByDate } = await import("@/lib/slots");
+
+      const slotsByDate = getMockSlotsByDate("office-hours");
+
+      expect(slotsByDate["2025-01-02"]).toEqual([]);
+      expect(slotsByDate["2025-01-03"]?.[0]?.start).toBe("2025-01-03T21:00:00.000Z");
+      expect(Object.values(getMockSlotsByDate("misconfigured")).flat()).toEqual([]);
+    } finally {
+      vi.doUnmock("@/config/meeting_types.json");
+      vi.resetModules();
+    }
+  });
+
+  it("offers a round-robin slot while any host in the pool is free", async () => {
+    vi.resetModules();
+    vi.doMock("@/config/hosts.json", () => ({
+      default: [
+        { id: "alex", name: "Alex", calendarId: "alex@example.com" },
+        { id: "blair", name: "Blair", calendarId: "blair@example.com" },
+      ],
+    }));
+    vi.doMock("@/config/meeting_types.json", () => ({
+      default: [
+        {
+          id: "sales-intro",
+          title: "Sales Intro",
+          durationMinutes: 30,
+          assignment: "round-robin",
+          hostIds: ["alex", "blair"],
+          isActive: true,
+        },
+      ],
+    }));
+    mockedFreeBusy.mockResolvedValueOnce({
+      "alex@example.com": [
+        { start: "2025-01-02T17:00:00.000Z", end: "2025-01-02T17:30:00.000Z" },
+        { start: "2025-01-02T18:00:00.000Z", end: "2025-01-02T18:30:00.000Z" },
+      ],
+      "blair@example.com": [
+        { start: "2025-01-02T17:30:00.000Z", end: "2025-01-02T18:30:00.000Z" },
+      ],
+    });
+
+    try {
+      const { getHostAvailability } = await import("@/lib/slots");
+
+      const hostAvailability = await getHostAvailability("sales-intro");
+      const startsFor = (hostId: string) =>
+        (hostAvailability.find(({ host }) => host.id === hostId)?.slotsByDate["2025-01-02"] ?? []).map(
+          (slot) => slot.start,
+        );
+
+      expect(mockedFreeBusy).toHaveBeenCalledWith(
+        expect.objectContaining({ calendarIds: ["alex@example.com", "blair@example.com"] }),
+      );
+      expect(startsFor("alex")).toContain("2025-01-02T17:30:00.000Z");
+      expect(startsFor("alex")).not.toContain("2025-01-02T17:00:00.000Z");
+      expect(startsFor("blair")).toContain("2025-01-02T17:00:00.000Z");
+      expect(startsFor("blair")).not.toContain("2025-01-02T18:00:00.000Z");
+      expect(startsFor("alex")).not.toContain("2025-01-02T18:00:00.000Z");
+    } finally {
+      vi.doUnmock("@/config/hosts.json");
+      vi.doUnmock("@/config/meeting_types.json");
+      vi.resetModules();
+    }
+  });
+
+  it("offers a collective slot only when every host is free", async () => {
+    vi.resetModules();
+    vi.doMock("@/config/hosts.json", () => ({
+      default: [
+        { id: "alex", name: "Alex", calendarId: "alex@example.com" },
+        { id: "blair", name: "Blair", calendarId: "blair@example.com" },
+      ],
+    }));
+    vi.doMock("@/config/meeting_types.json", () => ({
+      default: [
+        {
+          id: "panel",
+          title: "Panel Interview",
+          durationMinutes: 30,
+          assignment: "collective",
+          hostIds: ["alex", "blair"],
+          isActive: true,
+        },
+        {
+          id: "broken-panel",
+          title: "Broken Panel",
+          durationMinutes: 30,
+          assignment: "collective",
+          hostIds: ["alex", "unknown"],
+          isActive: true,
+        },
+      ],
+    }));
+    mockedFreeBusy.mockResolvedValueOnce({
+      "alex@example.com": [{ start: "2025-01-02T17:00:00.000Z", end: "2025-01-02T17:30:00.000Z" }],
+      "blair@example.com": [{ start: "2025-01-02T17:30:00.000Z", end: "2025-01-02T18:00:00.000Z" }],
+    });
+
+    try {
+      const { getAvailabilityByDate, getHostAvailability } = await import("@/lib/slots");
+
+      const hostAvailability = await getHostAvailability("panel");
+      const starts = (hostAvailability[0]?.slotsByDate["2025-01-02"] ?? []).map((slot) => slot.start);
+
+      expect(hostAvailability.map(({ host }) => host.id)).toEqual(["alex"]);
+      expect(starts).not.toContain("2025-01-02T17:00:00.000Z");
+      expect(starts).not.toContain("2025-01-02T17:30:00.000Z");
+      expect(starts).toContain("2025-01-02T18:00:00.000Z");
+      expect(await getAvailabilityByDate("broken-panel")).toEqual({});
+    } finally {
+      vi.doUnmock("@/config/hosts.json");
+      vi.doUnmock("@/config/meeting_types.json");
+      vi.resetModules();
+    }
+  });
+
+  it("reads busy time for hosts on other providers through their own calendar provider", async () => {
+    vi.resetModules();
+    vi.doMock("@/config/hosts.json", () => ({
+      default: [
+        { id: "alex", name: "Alex", calendarId: "alex@example.com" },
+        { id: "sam", name: "Sam", calendarId: "work", busyCalendarIds: ["family"], provider: { type: "fixture" } },
+      ],
+    }));
+    vi.doMock("@/config/meeting_types.json", () => ({
+      default: [
+        {
+          id: "sales-intro",
+          title: "Sales Intro",
+          durationMinutes: 30,
+          assignment: "round-robin",
+          hostIds: ["alex", "sam"],
+          isActive: true,
+        },
+      ],
+    }));
+    mockedFreeBusy.mockResolvedValueOnce({ "alex@example.com": [] });
+
+    try {
+      const { registerCalendarProviderFactory } = await import("@/lib/calendar-providers");
+      const getFreeBusy = vi.fn(async () => ({
+        work: [{ start: "2025-01-02T17:00:00.000Z", end: "2025-01-02T17:30:00.000Z" }],
+        family: [],
+      }));
+      registerCalendarProviderFactory(
+        "fixture",
+        () => ({ id: "fixture", getFreeBusy, listEvents: async () => [] }) as unknown as CalendarProvider,
+      );
+      const { getHostAvailability } = await import("@/lib/slots");
+
+      const hostAvailability = await getHostAvailability("sales-intro");
+      const samStarts = (hostAvailability.find(({ host }) => host.id === "sam")?.slotsByDate["2025-01-02"] ?? []).map(
+        (slot) => slot.start,
+      );
+
+      expect(mockedFreeBusy).toHaveBeenCalledWith(expect.objectContaining({ calendarIds: ["alex@example.com"] }));
+      expect(getFreeBusy).toHaveBeenCalledWith(expect.objectContaining({ calendarIds: ["work", "family"] }));
+      expect(samStarts).not.toContain("2025-01-02T17:00:00.000Z");
+      expect(samStarts).toContain("2025-01-02T17:30:00.000Z");
+    } finally {
+      vi.doUnmock("@/config/hosts.json");
+      vi.doUnmock("@/config/meeting_types.json");
+      vi.resetModules();
+    }
+  });
+
+  it("lists every calendar bookings are written to and rejects pooled destinations on load", async () => {
+    vi.resetModules();
+    vi.doMock("@/config/hosts.json", () => ({
+      default: [
+        { id: "alex", name: "Alex", calendarId: "alex@example.com" },
+        { id: "blair", name: "Blair", calendarId: "blair@example.com", provider: "caldav" },
+      ],
+    }));
+    const meetingTypes = [
+      {
+        id: "sales-intro",
+        title: "Sales Intro",
+        durationMinutes: 30,
+        assignment: "round-robin",
+        hostIds: ["alex", "blair"],
+        isActive: true,
+      },
+      {
+        id: "office-hours",
+        title: "Office Hours",
+        durationMinutes: 30,
+        hostIds: ["alex"],
+        destinationCalendarId: "alex-bookings@example.com",
+        isActive: true,
+      },
+    ];
+    vi.doMock("@/config/meeting_types.json", () => ({ default: meetingTypes }));
+
+    try {
+      const { getBookingDestinationHosts } = await import("@/lib/slots");
+
+      expect(getBookingDestinationHosts().map((host) => host.calendarId)).toEqual([
+        "alex@example.com",
+        "blair@example.com",
+        "alex-bookings@example.com",
+      ]);
+      expect(getBookingDestinationHosts("google").map((host) => host.calendarId)).toEqual([
+        "alex@example.com",
+        "alex-bookings@example.com",
+      ]);
+
+      vi.resetModules();
+      meetingTypes[1].hostIds = ["alex", "blair"];
+      await expect(import("@/lib/slots")).rejects.toMatchObject({ name: "HostConfigError" });
+    } finally {
+      vi.doUnmock("@/config/hosts.json");
+      vi.doUnmock("@/config/meeting_types.json");
+      vi.resetModules();
+    }
+  });
+
+  it("closes days once the meeting type reaches its daily cap", async () => {
+    const bookedStarts = [
+      "2025-01-02T17:00:00.000Z",
+      "2025-01-02T18:00:00.000Z",
+      "2025-01-02T21:00:00.000Z",
+      "2025-01-02T22:00:00.000Z",
+    ];
+    mockedListEvents.mockResolvedValueOnce(
+      bookedStarts.map((start, index) => ({
+        id: `evt-${index}`,
+        start,
+        end: new Date(Date.parse(start) + 30 * 60 * 1000).toISOString(),
+        privateProperties: { bookedVia: "scheduler", meetingTypeId: "intro-30" },
+        raw: {},
+      })),
+    );
+
+    const { getAvailabilityByDate } = await import("@/lib/slots");
+
+    const availability = await getAvailabilityByDate("intro-30");
+
+    expect(availability["2025-01-02"]).toEqual([]);
+    expect(availability["2025-01-03"]?.length).toBeGreaterThan(0);
+    expect(mockedListEvents).toHaveBeenCalledWith(
+      expect.objectContaining({
+        calendarId: "primary",
+        privateProperties: { bookedVia: "scheduler" },
+      }),
+    );
+  });
+
+  it("checks a single slot against a padded busy window and its day's cap", async () => {
+    mockedFreeBusy.mockResolvedValue({});
+    const { getSlotBookability } = await import("@/lib/slots");
+    const slot = { start: "2025-01-02T19:00:00.000Z", end: "2025-01-02T19:30:00.000Z" };
+
+    await expect(getSlotBookability("intro-30", slot)).resolves.toMatchObject({ bookable: true });
+    expect(mockedFreeBusy).toHaveBeenCalledWith({
+      timeMin: new Date("2025-01-02T19:00:00.000Z"),
+      timeMax: new Date("2025-01-02T19:45:00.000Z"),
+      calendarIds: ["primary"],
+    });
+    expect(mockedListEvents).toHaveBeenCalledWith(
+      expect.objectContaining({
+        timeMin: new Date("2024-12-30T08:00:00.000Z"),
+        timeMax: new Date("2025-01-06T08:00:00.000Z"),
+      }),
+    );
+
+    const dayAtCap = ["17:00", "18:00", "21:00", "22:00"].map((time, index) => ({
+      id: `evt-${index}`,
+      start: `2025-01-02T${time}:00.000Z`,
+      end: `2025-01-02T${time.slice(0, 2)}:30:00.000Z`,
+      privateProperties: { bookedVia: "scheduler", meetingTypeId: "intro-30" },
+      raw: {},
+    }));
+    mockedListEvents.mockResolvedValueOnce(dayAtCap);
+    await expect(getSlotBookability("intro-30", slot)).resolves.toEqual({ bookable: false, hosts: [] });
+
+    // Moving one of that day's bookings does not count it against the cap.
+    mockedListEvents.mockResolvedValueOnce(dayAtCap);
+    await expect(getSlotBookability("intro-30", slot, { excludeEventId: "evt-0" })).resolves.toMatchObject({
+      bookable: true,
+    });
+
+    const outsideWindow = { start: "2025-06-02T19:00:00.000Z", end: "2025-06-02T19:30:00.000Z" };
+    await expect(getSlotBookability("intro-30", outsideWindow)).resolves.toEqual({ bookable: false, hosts: [] });
+    expect(mockedFreeBusy).toHaveBeenCalledTimes(3);
+  });
+
+  it("caps each round-robin host on its own bookings", async () => {
+    vi.resetModules();
+    vi.doMock("@/config/hosts.json", () => ({
+      default: [
+        { id: "alex", name: "Alex", calendarId: "alex@example.com" },
+        { id: "blair", name: "Blair", calendarId: "blair@example.com" },
+      ],
+    }));
+    vi.doMock("@/config/meeting_types.json", () => ({
+      default: [
+        {
+          id: "sales-intro",
+          title: "Sales Intro",
+          durationMinutes: 30,
+          maxPerDay: 4,
+          assignment: "round-robin",
+          hostIds: ["alex", "blair"],
+          isActive: true,
+        },
+      ],
+    }));
+    mockedFreeBusy.mockResolvedValue({});
+    mockedListEvents.mockImplementation(async ({ calendarId }) =>
+      calendarId === "alex@example.com"
+        ? ["17:00", "18:00", "21:00", "22:00"].map((time, index) => ({
+            id: `alex-${index}`,
+            start: `2025-01-02T${time}:00.000Z`,
+            end: `2025-01-02T${time.slice(0, 2)}:30:00.000Z`,
+            privateProperties: { bookedVia: "scheduler", meetingTypeId: "sales-intro" },
+            raw: {},
+          }))
+        : [],
+    );
+
+    try {
+      const { getHostAvailability, getSlotBookability } = await import("@/lib/slots");
+
+      const hostAvailability = await getHostAvailability("sales-intro");
+      const slotsFor = (hostId: string) =>
+        hostAvailability.find(({ host }) => host.id === hostId)?.slotsByDate["2025-01-02"] ?? [];
+      expect(slotsFor("alex")).toEqual([]);
+      expect(slotsFor("blair").length).toBeGreaterThan(0);
+
+      const slot = { start: "2025-01-02T19:00:00.000Z", end: "2025-01-02T19:30:00.000Z" };
+      const bookability = await getSlotBookability("sales-intro", slot);
+      expect(bookability.bookable).toBe(true);
+      expect(bookability.hosts.map((host) => host.id)).toEqual(["blair"]);
+    } finally {
+      vi.doUnmock("@/config/hosts.json");
+      vi.doUnmock("@/config/meeting_types.json");
+      vi.resetModules();
+    }
+  });
+
   it("returns fallback metadata when Google availability fails", async () => {
     mockedFreeBusy.mockRejectedValueOnce(new Error("Missing calendar configuration"));
 
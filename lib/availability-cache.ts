@@ -0,0 +1,84 @@
+import "server-only";
+
+import appSettings from "@/config/app.settings.json" assert { type: "json" };
+
+const DEFAULT_TTL_SECONDS = 60;
+
+export type AvailabilityCacheKey = {
+  meetingTypeId: string;
+  // Mock busy blocks follow the meeting length, so each duration option is cached separately.
+  durationMinutes?: number;
+  calendarIds: string[];
+  timeMin: Date;
+  timeMax: Date;
+};
+
+type CacheEntry = {
+  value: Promise<unknown>;
+  expiresAt: number;
+};
+
+const cacheEntries = new Map<string, CacheEntry>();
+
+export function getAvailabilityCacheTtlMs(): number {
+  const envValue = process.env.AVAILABILITY_CACHE_TTL_SECONDS;
+  const parsedEnv = envValue === undefined || envValue.trim() === "" ? Number.NaN : Number(envValue);
+  const seconds = Number.isFinite(parsedEnv)
+    ? parsedEnv
+    : (appSettings.availabilityCacheTtlSeconds ?? DEFAULT_TTL_SECONDS);
+
+  return Math.max(0, seconds) * 1000;
+}
+
+export async function getCachedAvailability<T>(key: AvailabilityCacheKey, load: () => Promise<T>): Promise<T> {
+  const ttlMs = getAvailabilityCacheTtlMs();
+  if (ttlMs === 0) {
+    return load();
+  }
+
+  const now = Date.now();
+  pruneExpiredEntries(now);
+
+  const cacheKey = toCacheKey(key);
+  const cached = cacheEntries.get(cacheKey);
+  if (cached) {
+    return cached.value as Promise<T>;
+  }
+
+  // Concurrent requests for the same window share one in-flight load.
+  const value = load();
+  const entry: CacheEntry = { value, expiresAt: now + ttlMs };
+  cacheEntries.set(cacheKey, entry);
+
+  value.catch(() => {
+    if (cacheEntries.get(cacheKey) === entry) {
+      cacheEntries.delete(cacheKey);
+    }
+  });
+
+  return value;
+}
+
+// A booking change frees or blocks time for every meeting type that shares the host calendars
+// (and for collective invitees), so invalidation clears the whole cache.
+export function invalidateAvailabilityCache(): void {
+  cacheEntries.clear();
+}
+
+function pruneExpiredEntries(now: number): void {
+  for (const [cacheKey, entry] of cacheEntries) {
+    if (entry.expiresAt <= now) {
+      cacheEntries.delete(cacheKey);
+    }
+  }
+}
+
+function toCacheKey(key: AvailabilityCacheKey): string {
+  return [
+    key.meetingTypeId,
+    key.durationMinutes ?? "",
+    [...key.calendarIds].sort().join(","),
+    key.timeMin.toISOString(),
+    key.timeMax.toISOString(),
+  ].join("|");
+}
@@ -0,0 +1,300 @@
+import "server-only";
+
+import { addDays, addMinutes, format } from "date-fns";
+import { fromZonedTime, toZonedTime } from "date-fns-tz";
+
+import appSettings from "@/config/app.settings.json" assert { type: "json" };
+import { createCalDavProvider, getCalDavProviderOptions } from "@/lib/caldav";
+import type { CalendarProvider } from "@/lib/calendar-provider";
+import {
+  createGoogleEventsBusySource,
+  EVENT_POLICY_KEYS,
+  type CalendarEventPolicy,
+} from "@/lib/calendar-event-policy";
+import { getGoogleFreeBusy } from "@/lib/google";
+import { createIcsBusySource, type IcsLocation } from "@/lib/ics";
+import { getMicrosoftFreeBusy } from "@/lib/microsoft";
+
+const DEFAULT_MOCK_BLOCK_MINUTES = 30;
+
+export type BusyTimeRange = {
+  start: string;
+  end: string;
+};
+
+export type BusyTimesByCalendar = Record<string, BusyTimeRange[]>;
+
+export type BusySourceQuery = {
+  timeMin: Date;
+  timeMax: Date;
+  calendarIds: string[];
+  // Calendar provider type of each calendar, so provider-bound sources skip other providers' calendars.
+  calendarProviders?: Record<string, string>;
+};
+
+export interface BusySource {
+  readonly id: string;
+  // The calendar provider this source reads from; it then stands in for that provider's free/busy.
+  readonly provider?: string;
+  // Set when the source is limited to some calendars.
+  readonly calendarIds?: string[];
+  getBusy(query: BusySourceQuery): Promise<BusyTimesByCalendar>;
+}
+
+export type BusySourceConfig = {
+  type: string;
+  id?: string;
+  calendarIds?: string[];
+  [option: string]: unknown;
+};
+
+export type BusySourceContext = {
+  hostTimezone: string;
+  // Mock blocks last as long as the meeting being scheduled.
+  meetingDurationMinutes?: number;
+};
+
+export type BusySourceFactory = (config: BusySourceConfig, context: BusySourceContext) => BusySource;
+
+export class BusySourceConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BusySourceConfigError";
+  }
+}
+
+const busySourceFactories = new Map<string, BusySourceFactory>([
+  ["google", (config) => scopeBusySource(createGoogleBusySource(config.id), config.calendarIds)],
+  [
+    "google-events",
+    (config, context) =>
+      scopeBusySource(
+        createGoogleEventsBusySource({
+          id: config.id,
+          hostTimezone: context.hostTimezone,
+          policy: parseEventPolicy(config.policy, "policy"),
+          calendarPolicies: Object.fromEntries(
+            Object.entries(parseRecord(config.calendarPolicies, "calendarPolicies")).map(([calendarId, policy]) => [
+              calendarId,
+              parseEventPolicy(policy, `calendarPolicies.${calendarId}`),
+            ]),
+          ),
+        }),
+        config.calendarIds,
+      ),
+  ],
+  ["caldav", (config, context) => scopeBusySource(createCalDavBusySource(config, context), config.calendarIds)],
+  ["microsoft", (config) => scopeBusySource(createMicrosoftBusySource(config.id), config.calendarIds)],
+  ["mock", (config, context) => scopeBusySource(createMockBusySource(context, config.id), config.calendarIds)],
+  [
+    "ics",
+    (config, context) =>
+      scopeBusySource(
+        createIcsBusySource({
+          id: config.id,
+          location: getIcsLocation(config),
+          defaultTimezone: context.hostTimezone,
+        }),
+        config.calendarIds,
+      ),
+  ],
+]);
+
+export function registerBusySourceFactory(type: string, factory: BusySourceFactory): void {
+  busySourceFactories.set(type, factory);
+}
+
+export function createGoogleBusySource(id = "google"): BusySource {
+  return {
+    id,
+    provider: "google",
+    getBusy: ({ timeMin, timeMax, calendarIds }) => getGoogleFreeBusy({ timeMin, timeMax, calendarIds }),
+  };
+}
+
+export function createMicrosoftBusySource(id = "microsoft"): BusySource {
+  return {
+    id,
+    provider: "microsoft",
+    getBusy: ({ timeMin, timeMax, calendarIds }) => getMicrosoftFreeBusy({ timeMin, timeMax, calendarIds }),
+  };
+}
+
+export function createCalDavBusySource(config: BusySourceConfig, context: BusySourceContext): BusySource {
+  const provider = createCalDavProvider(getCalDavProviderOptions(config, context.hostTimezone));
+  return {
+    id: config.id ?? "caldav",
+    provider: "caldav",
+    getBusy: (query) => provider.getFreeBusy(query),
+  };
+}
+
+// Reads a host's own calendars through its calendar provider.
+export function createCalendarProviderBusySource(provider: CalendarProvider, calendarIds: string[]): BusySource {
+  return scopeBusySource(
+    {
+      id: provider.id,
+      getBusy: ({ timeMin, timeMax, calendarIds: queried }) =>
+        provider.getFreeBusy({ timeMin, timeMax, calendarIds: queried }),
+    },
+    calendarIds,
+  );
+}
+
+export function createMockBusySource(context: BusySourceContext, id = "mock"): BusySource {
+  return {
+    id,
+    getBusy: async (query) => getMockBusyTimes(query, context),
+  };
+}
+
+export function getMockBusyTimes(query: BusySourceQuery, context: BusySourceContext): BusyTimesByCalendar {
+  const hostNow = toZonedTime(new Date(), context.hostTimezone);
+  const blockedStartsByDate: Record<string, string[]> = {
+    [format(addDays(hostNow, 2), "yyyy-MM-dd")]: ["09:00", "09:30", "10:00"],
+    [format(addDays(hostNow, 9), "yyyy-MM-dd")]: ["13:00", "13:30"],
+  };
+
+  const ranges: BusyTimeRange[] = [];
+
+  for (const [dateLabel, blockedStarts] of Object.entries(blockedStartsByDate)) {
+    for (const startLabel of blockedStarts) {
+      const startUtc = fromZonedTime(`${dateLabel}T${startLabel}:00`, context.hostTimezone);
+      const endUtc = addMinutes(startUtc, context.meetingDurationMinutes ?? DEFAULT_MOCK_BLOCK_MINUTES);
+
+      if (startUtc < query.timeMax && endUtc > query.timeMin) {
+        ranges.push({ start: startUtc.toISOString(), end: endUtc.toISOString() });
+      }
+    }
+  }
+
+  return Object.fromEntries(query.calendarIds.map((calendarId) => [calendarId, ranges.map((range) => ({ ...range }))]));
+}
+
+export function getBusySourceConfigs(): BusySourceConfig[] {
+  const envValue = process.env.BUSY_SOURCES;
+  if (envValue) {
+    return envValue
+      .split(",")
+      .map((value) => value.trim())
+      .filter((value) => value.length > 0)
+      .map((type) => ({ type }));
+  }
+
+  const configured: BusySourceConfig[] = appSettings.busySources ?? [];
+  return configured.length > 0 ? configured : [{ type: "google" }];
+}
+
+export function getConfiguredBusySources(context: BusySourceContext): BusySource[] {
+  return getBusySourceConfigs().map((config) => {
+    const factory = busySourceFactories.get(config.type);
+    if (!factory) {
+      throw new BusySourceConfigError(`Unknown busy source type "${config.type}".`);
+    }
+
+    return factory(config, context);
+  });
+}
+
+// Calendars that no provider-bound source reads, which must fall back to their own calendar provider.
+export function getUncoveredCalendarIds(sources: BusySource[], calendarProviders: Record<string, string>): string[] {
+  return Object.entries(calendarProviders)
+    .filter(
+      ([calendarId, providerType]) =>
+        !sources.some(
+          (source) =>
+            source.provider === providerType && (!source.calendarIds || source.calendarIds.includes(calendarId)),
+        ),
+    )
+    .map(([calendarId]) => calendarId);
+}
+
+export async function collectBusyTimes(
+  query: BusySourceQuery,
+  sources: BusySource[],
+): Promise<BusyTimesByCalendar> {
+  const { calendarProviders } = query;
+  const results = await Promise.all(
+    sources.map((source) => {
+      if (!source.provider || !calendarProviders) {
+        return source.getBusy(query);
+      }
+
+      const calendarIds = query.calendarIds.filter((calendarId) => calendarProviders[calendarId] === source.provider);
+      return calendarIds.length > 0 ? source.getBusy({ ...query, calendarIds }) : Promise.resolve<BusyTimesByCalendar>({});
+    }),
+  );
+  const combined: BusyTimesByCalendar = Object.fromEntries(query.calendarIds.map((calendarId) => [calendarId, []]));
+
+  for (const result of results) {
+    for (const [calendarId, ranges] of Object.entries(result)) {
+      if (!combined[calendarId]) {
+        continue;
+      }
+
+      combined[calendarId].push(...ranges);
+    }
+  }
+
+  return combined;
+}
+
+function scopeBusySource(source: BusySource, calendarIds?: string[]): BusySource {
+  if (!calendarIds || calendarIds.length === 0) {
+    return source;
+  }
+
+  return {
+    id: source.id,
+    provider: source.provider,
+    calendarIds,
+    getBusy: async (query) => {
+      const scopedIds = query.calendarIds.filter((calendarId) => calendarIds.includes(calendarId));
+      if (scopedIds.length === 0) {
+        return {};
+      }
+
+      return source.getBusy({ ...query, calendarIds: scopedIds });
+    },
+  };
+}
+
+function getIcsLocation(config: BusySourceConfig): IcsLocation {
+  if (typeof config.url === "string" && config.url.length > 0) {
+    return { url: config.url };
+  }
+
+  if (typeof config.path === "string" && config.path.length > 0) {
+    return { path: config.path };
+  }
+
+  throw new BusySourceConfigError(`ICS busy source "${config.id ?? "ics"}" needs a "path" or "url".`);
+}
+
+function parseRecord(value: unknown, field: string): Record<string, unknown> {
+  if (value === undefined) {
+    return {};
+  }
+
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new BusySourceConfigError(`Busy source option "${field}" must be an object.`);
+  }
+
+  return value as Record<string, unknown>;
+}
+
+function parseEventPolicy(value: unknown, field: string): CalendarEventPolicy {
+  const policy = parseRecord(value, field);
+
+  for (const [key, rule] of Object.entries(policy)) {
+    if (!EVENT_POLICY_KEYS.includes(key as keyof CalendarEventPolicy)) {
+      throw new BusySourceConfigError(`Unknown event policy "${field}.${key}".`);
+    }
+
+    if (rule !== "busy" && rule !== "free") {
+      throw new BusySourceConfigError(`Event policy "${field}.${key}" must be "busy" or "free".`);
+    }
+  }
+
+  return policy as CalendarEventPolicy;
+}
@@ -0,0 +1,477 @@
+import "server-only";
+
+import { randomUUID } from "node:crypto";
+
+import type { BusyTimeRange, BusyTimesByCalendar } from "@/lib/busy-sources";
+import {
+  CalendarProviderConfigError,
+  CalendarProviderError,
+  type CalendarAttendee,
+  type CalendarEvent,
+  type CalendarProvider,
+  type CalendarProviderConfig,
+  type CalendarSendUpdates,
+} from "@/lib/calendar-provider";
+import {
+  parseIcsComponents,
+  parseIcsDuration,
+  parseIcsInstant,
+  unescapeIcsText,
+  type IcsProperty,
+} from "@/lib/ics";
+import { sendWithRetry } from "@/lib/retry";
+
+const PRIVATE_PROPERTY_NAME = "X-SCHEDULER-PROP";
+const WRITE_PRIVILEGES = ["write", "write-content", "all"];
+const BUSY_TYPES = new Set(["BUSY", "BUSY-TENTATIVE", "BUSY-UNAVAILABLE"]);
+const PARTSTAT_RESPONSES: Record<string, string> = {
+  ACCEPTED: "accepted",
+  DECLINED: "declined",
+  TENTATIVE: "tentative",
+  "NEEDS-ACTION": "needsAction",
+};
+
+type FetchLike = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+export type CalDavProviderOptions = {
+  id?: string;
+  // Calendar home; calendar IDs that are not absolute URLs name collections below it.
+  url: string;
+  username?: string;
+  password?: string;
+  // Applied to floating times, which carry no TZID.
+  timezone?: string;
+  fetchImpl?: FetchLike;
+};
+
+type StoredEvent = {
+  href: string;
+  etag?: string;
+  calendarData: string;
+};
+
+type EventFields = {
+  uid: string;
+  start: string;
+  end: string;
+  summary?: string;
+  description?: string;
+  attendees: CalendarAttendee[];
+  privateProperties?: Record<string, string>;
+  created?: string;
+  // Revision number that attendees' clients use to order updates; bumped when the time moves.
+  sequence?: number;
+  organizer?: IcsProperty;
+  sendUpdates?: CalendarSendUpdates;
+};
+
+export class CalDavError extends CalendarProviderError {
+  constructor(message: string, status: number, responseBody?: unknown) {
+    super(message, status, responseBody);
+    this.name = "CalDavError";
+  }
+}
+
+// Secrets stay in the environment: `passwordEnv` names the variable holding the (app) password.
+export function getCalDavProviderOptions(config: CalendarProviderConfig, defaultTimezone = "UTC"): CalDavProviderOptions {
+  if (typeof config.url !== "string" || config.url.length === 0) {
+    throw new CalendarProviderConfigError(`CalDAV provider "${config.id ?? config.type}" needs a "url".`);
+  }
+
+  const passwordEnv = typeof config.passwordEnv === "string" ? config.passwordEnv : "CALDAV_PASSWORD";
+
+  return {
+    id: typeof config.id === "string" ? config.id : undefined,
+    url: config.url,
+    username: typeof config.username === "string" ? config.username : process.env.CALDAV_USERNAME,
+    password: process.env[passwordEnv],
+    timezone: typeof config.timezone === "string" ? config.timezone : defaultTimezone,
+  };
+}
+
+export function createCalDavProvider(options: CalDavProviderOptions): CalendarProvider {
+  const { id = "caldav", url, username, password, timezone = "UTC", fetchImpl = fetch } = options;
+  const homeUrl = new URL(url.endsWith("/") ? url : `${url}/`);
+  const writableCollections = new Set<string>();
+
+  const request = async (method: string, target: URL, init: { headers?: Record<string, string>; body?: string } = {}) => {
+    const headers: Record<string, string> = { ...init.headers };
+    if (username) {
+      headers.Authorization = `Basic ${Buffer.from(`${username}:${password ?? ""}`).toString("base64")}`;
+    }
+
+    return fetchImpl(target, { method, headers, body: init.body });
+  };
+
+  const fail = async (response: Response, action: string): Promise<never> => {
+    const body = await response.text().catch(() => "");
+    throw new CalDavError(`CalDAV ${action} failed (${response.status}).`, response.status, body);
+  };
+
+  const getCollectionUrl = (calendarId: string) =>
+    /^https?:\/\//i.test(calendarId)
+      ? new URL(calendarId.endsWith("/") ? calendarId : `${calendarId}/`)
+      : new URL(`${encodeURIComponent(calendarId)}/`, homeUrl);
+
+  const getEventUrl = (calendarId: string, eventId: string) =>
+    new URL(`${encodeURIComponent(eventId)}.ics`, getCollectionUrl(calendarId));
+
+  const fetchEvent = async (calendarId: string, eventId: string): Promise<StoredEvent> => {
+    const eventUrl = getEventUrl(calendarId, eventId);
+    const response = await request("GET", eventUrl, { headers: { Accept: "text/calendar" } });
+    if (!response.ok) {
+      return fail(response, "event fetch");
+    }
+
+    return { href: eventUrl.pathname, etag: response.headers.get("ETag") ?? undefined, calendarData: await response.text() };
+  };
+
+  const putEvent = async (calendarId: string, fields: EventFields, precondition: Record<string, string>) => {
+    const eventUrl = getEventUrl(calendarId, fields.uid);
+    const response = await request("PUT", eventUrl, {
+      headers: { "Content-Type": "text/calendar; charset=utf-8", ...precondition },
+      body: buildEventCalendar(fields),
+    });
+
+    // A failed precondition means the event changed (or already exists) on the server.
+    if (response.status === 412) {
+      throw new CalDavError("The CalDAV event was changed by someone else.", 409);
+    }
+    if (!response.ok) {
+      return fail(response, "event write");
+    }
+
+    return mapEvent(
+      { href: eventUrl.pathname, etag: response.headers.get("ETag") ?? undefined, calendarData: buildEventCalendar(fields) },
+      timezone,
+    );
+  };
+
+  return {
+    id,
+    getFreeBusy: async ({ timeMin, timeMax, calendarIds }) => {
+      const entries = await Promise.all(
+        calendarIds.map(async (calendarId) => {
+          const response = await request("REPORT", getCollectionUrl(calendarId), {
+            headers: { Depth: "1", "Content-Type": "application/xml; charset=utf-8" },
+            body: buildFreeBusyQuery(timeMin, timeMax),
+          });
+          if (!response.ok) {
+            return fail(response, "free-busy query");
+          }
+
+          return [calendarId, parseFreeBusy(await response.text())] as const;
+        }),
+      );
+
+      return Object.fromEntries(entries) as BusyTimesByCalendar;
+    },
+    createEvent: async ({ calendarId, start, end, attendees = [], ...input }) =>
+      putEvent(
+        calendarId,
+        { ...input, uid: randomUUID(), start: toIsoString(start), end: toIsoString(end), attendees },
+        { "If-None-Match": "*" },
+      ),
+    updateEvent: async ({ calendarId, eventId, start, end, summary, description, attendees, sendUpdates }) => {
+      const stored = await fetchEvent(calendarId, eventId);
+      const current = mapEvent(stored, timezone);
+      const startIso = toIsoString(start);
+      const endIso = toIsoString(end);
+      const sequence = typeof current.raw.sequence === "number" ? current.raw.sequence : 0;
+
+      return putEvent(
+        calendarId,
+        {
+          uid: eventId,
+          start: startIso,
+          end: endIso,
+          summary: summary ?? stringOrUndefined(current.raw.summary),
+          description: description ?? stringOrUndefined(current.raw.description),
+          attendees:
+            attendees && attendees.length > 0
+              ? attendees
+              : (current.attendees ?? []).flatMap((attendee) => (attendee.email ? [{ email: attendee.email }] : [])),
+          privateProperties: current.privateProperties,
+          created: current.created,
+          sequence: startIso !== current.start || endIso !== current.end ? sequence + 1 : sequence,
+          organizer: current.raw.organizer as IcsProperty | undefined,
+          sendUpdates,
+        },
+        stored.etag ? { "If-Match": stored.etag } : {},
+      );
+    },
+    deleteEvent: async ({ calendarId, eventId }) => {
+      const { response, attempts } = await sendWithRetry(() => request("DELETE", getEventUrl(calendarId, eventId)));
+      if (response.status === 404 || response.status === 410) {
+        // After a retry, a missing event is most likely the one an earlier attempt removed.
+        return attempts > 1 ? { status: "deleted" } : { status: "not_found" };
+      }
+      if (!response.ok) {
+        return fail(response, "event delete");
+      }
+
+      return { status: "deleted" };
+    },
+    getEvent: async ({ calendarId, eventId }) => mapEvent(await fetchEvent(calendarId, eventId), timezone),
+    listEvents: async ({ calendarId, timeMin, timeMax, privateProperties = {} }) => {
+      const response = await request("REPORT", getCollectionUrl(calendarId), {
+        headers: { Depth: "1", "Content-Type": "application/xml; charset=utf-8" },
+        body: buildCalendarQuery(new Date(timeMin), new Date(timeMax)),
+      });
+      if (!response.ok) {
+        return fail(response, "calendar query");
+      }
+
+      return parseMultistatus(await response.text())
+        .flatMap((entry) => (entry.calendarData ? [mapEvent(entry as StoredEvent, timezone)] : []))
+        .filter((event) =>
+          Object.entries(privateProperties).every(([key, value]) => event.privateProperties?.[key] === value),
+        )
+        .sort((left, right) => left.start.localeCompare(right.start));
+    },
+    assertWritable: async (calendarId) => {
+      const collectionUrl = getCollectionUrl(calendarId);
+      if (writableCollections.has(collectionUrl.href)) {
+        return;
+      }
+
+      const response = await request("PROPFIND", collectionUrl, {
+        headers: { Depth: "0", "Content-Type": "application/xml; charset=utf-8" },
+        body: '<?xml version="1.0" encoding="utf-8"?><D:propfind xmlns:D="DAV:"><D:prop><D:current-user-privilege-set/></D:prop></D:propfind>',
+      });
+      if (!response.ok) {
+        return fail(response, "privilege lookup");
+      }
+
+      // Servers that do not report privileges are given the benefit of the doubt.
+      const privileges = parsePrivileges(await response.text());
+      if (privileges && !privileges.some((privilege) => WRITE_PRIVILEGES.includes(privilege))) {
+        throw new CalendarProviderConfigError(
+          `Bookings cannot be written to CalDAV calendar "${calendarId}" (privileges: ${privileges.join(", ") || "none"}).`,
+        );
+      }
+
+      writableCollections.add(collectionUrl.href);
+    },
+  };
+}
+
+function buildFreeBusyQuery(timeMin: Date, timeMax: Date): string {
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<C:free-busy-query xmlns:C="urn:ietf:params:xml:ns:caldav">',
+    `<C:time-range start="${toIcsDateTime(timeMin)}" end="${toIcsDateTime(timeMax)}"/>`,
+    "</C:free-busy-query>",
+  ].join("");
+}
+
+function buildCalendarQuery(timeMin: Date, timeMax: Date): string {
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">',
+    "<D:prop><D:getetag/><C:calendar-data/></D:prop>",
+    '<C:filter><C:comp-filter name="VCALENDAR"><C:comp-filter name="VEVENT">',
+    `<C:time-range start="${toIcsDateTime(timeMin)}" end="${toIcsDateTime(timeMax)}"/>`,
+    "</C:comp-filter></C:comp-filter></C:filter>",
+    "</C:calendar-query>",
+  ].join("");
+}
+
+function parseFreeBusy(text: string): BusyTimeRange[] {
+  const ranges: BusyTimeRange[] = [];
+
+  for (const properties of parseIcsComponents(text, "VFREEBUSY")) {
+    for (const property of properties) {
+      if (property.name !== "FREEBUSY" || !BUSY_TYPES.has((property.params.FBTYPE ?? "BUSY").toUpperCase())) {
+        continue;
+      }
+
+      for (const period of property.value.split(",")) {
+        const [startValue, endValue = ""] = period.split("/");
+        const start = parseIcsInstant(startValue, {}, "UTC")?.instant;
+        const end = endValue.startsWith("P")
+          ? start && new Date(start.getTime() + parseIcsDuration(endValue))
+          : parseIcsInstant(endValue, {}, "UTC")?.instant;
+
+        if (start && end && end > start) {
+          ranges.push({ start: start.toISOString(), end: end.toISOString() });
+        }
+      }
+    }
+  }
+
+  return ranges.sort((left, right) => left.start.localeCompare(right.start));
+}
+
+function parseMultistatus(text: string): Partial<StoredEvent>[] {
+  const element = (name: string, flags = "i") =>
+    new RegExp(`<(?:[\\w-]+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`, flags);
+  const read = (body: string, name: string) => {
+    const match = body.match(element(name));
+    return match ? decodeXml(match[1]) : undefined;
+  };
+
+  return [...text.matchAll(element("response", "gi"))].map(([, body]) => ({
+    href: read(body, "href"),
+    etag: read(body, "getetag"),
+    calendarData: read(body, "calendar-data"),
+  }));
+}
+
+function parsePrivileges(text: string): string[] | null {
+  const privilegeSet = text.match(
+    /<(?:[\w-]+:)?current-user-privilege-set\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?current-user-privilege-set>/i,
+  );
+  if (!privilegeSet) {
+    return null;
+  }
+
+  return [...privilegeSet[1].matchAll(/<(?:[\w-]+:)?privilege\b[^>]*>\s*<(?:[\w-]+:)?([\w-]+)/gi)].map(([, name]) =>
+    name.toLowerCase(),
+  );
+}
+
+function decodeXml(value: string): string {
+  const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+  if (cdata) {
+    return cdata[1];
+  }
+
+  return value
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+function mapEvent(stored: StoredEvent, timezone: string): CalendarEvent {
+  const [properties = []] = parseIcsComponents(stored.calendarData, "VEVENT");
+  const find = (name: string) => properties.find((property) => property.name === name);
+  const text = (name: string) => {
+    const property = find(name);
+    return property ? unescapeIcsText(property.value) : undefined;
+  };
+
+  const start = readDate(find("DTSTART"), timezone);
+  const end = readDate(find("DTEND"), timezone);
+  const duration = find("DURATION");
+  const endInstant =
+    end?.instant ?? (start && duration ? new Date(start.instant.getTime() + parseIcsDuration(duration.value)) : undefined);
+
+  const privateProperties = Object.fromEntries(
+    properties
+      .filter((property) => property.name === PRIVATE_PROPERTY_NAME && property.params["X-NAME"])
+      .map((property) => [property.params["X-NAME"], unescapeIcsText(property.value)]),
+  );
+
+  return {
+    id: find("UID")?.value ?? "",
+    start: start && !start.allDay ? start.instant.toISOString() : "",
+    end: endInstant && !start?.allDay ? endInstant.toISOString() : "",
+    startDate: start?.allDay ? start.date : undefined,
+    endDate: start?.allDay ? end?.date : undefined,
+    status: find("STATUS")?.value.toLowerCase(),
+    transparency: find("TRANSP")?.value.toLowerCase(),
+    attendees: properties
+      .filter((property) => property.name === "ATTENDEE")
+      .map((property) => ({
+        email: property.value.replace(/^mailto:/i, ""),
+        responseStatus: PARTSTAT_RESPONSES[(property.params.PARTSTAT ?? "").toUpperCase()],
+      })),
+    privateProperties: Object.keys(privateProperties).length > 0 ? privateProperties : undefined,
+    created: find("CREATED") ? readDate(find("CREATED"), "UTC")?.instant.toISOString() : undefined,
+    raw: {
+      href: stored.href,
+      etag: stored.etag,
+      summary: text("SUMMARY"),
+      description: text("DESCRIPTION"),
+      sequence: Number.parseInt(find("SEQUENCE")?.value ?? "0", 10) || 0,
+      organizer: find("ORGANIZER"),
+    },
+  };
+}
+
+function readDate(
+  property: IcsProperty | undefined,
+  timezone: string,
+): { instant: Date; allDay: boolean; date: string } | undefined {
+  if (!property) {
+    return undefined;
+  }
+
+  const parsed = parseIcsInstant(property.value, property.params, timezone);
+  const date = property.value.slice(0, 8).replace(/^(\d{4})(\d{2})(\d{2})$/, "$1-$2-$3");
+  return parsed ? { ...parsed, date } : undefined;
+}
+
+function buildEventCalendar(fields: EventFields): string {
+  const scheduleAgent = fields.sendUpdates === "none" ? ";SCHEDULE-AGENT=NONE" : "";
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//CraftAmplify Scheduler//EN",
+    "BEGIN:VEVENT",
+    `UID:${fields.uid}`,
+    `DTSTAMP:${toIcsDateTime(new Date())}`,
+    `CREATED:${toIcsDateTime(fields.created ? new Date(fields.created) : new Date())}`,
+    `DTSTART:${toIcsDateTime(new Date(fields.start))}`,
+    `DTEND:${toIcsDateTime(new Date(fields.end))}`,
+    `SEQUENCE:${fields.sequence ?? 0}`,
+    ...(fields.organizer ? [formatProperty(fields.organizer)] : []),
+    ...(fields.summary !== undefined ? [`SUMMARY:${escapeIcsText(fields.summary)}`] : []),
+    ...(fields.description !== undefined ? [`DESCRIPTION:${escapeIcsText(fields.description)}`] : []),
+    ...fields.attendees.map(
+      (attendee) =>
+        `ATTENDEE${attendee.displayName ? `;CN="${attendee.displayName.replace(/"/g, "'")}"` : ""};RSVP=TRUE${scheduleAgent}:mailto:${attendee.email}`,
+    ),
+    ...Object.entries(fields.privateProperties ?? {}).map(
+      ([key, value]) => `${PRIVATE_PROPERTY_NAME};X-NAME=${key}:${escapeIcsText(value)}`,
+    ),
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+function formatProperty({ name, params, value }: IcsProperty): string {
+  const formattedParams = Object.entries(params).map(
+    ([key, paramValue]) => `;${key}=${/[:;,]/.test(paramValue) ? `"${paramValue}"` : paramValue}`,
+  );
+  return `${name}${formattedParams.join("")}:${value}`;
+}
+
+function escapeIcsText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 characters continue on the next line after a single space.
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  for (let index = 0; index < line.length; index += chunks.length === 0 ? 75 : 74) {
+    chunks.push(line.slice(index, index + (chunks.length === 0 ? 75 : 74)));
+  }
+
+  return chunks.join("\r\n ");
+}
+
+function toIcsDateTime(value: Date): string {
+  return value.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function toIsoString(value: Date | string): string {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new TypeError("Invalid date provided to CalDAV request.");
+  }
+
+  return date.toISOString();
+}
+
+function stringOrUndefined(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
@@ -0,0 +1,115 @@
+import "server-only";
+
+import { fromZonedTime } from "date-fns-tz";
+
+import type { BusySource, BusyTimeRange } from "@/lib/busy-sources";
+import { listCalendarEvents, type GoogleCalendarEvent, type ListCalendarEventsOptions } from "@/lib/google";
+
+export type EventBusyRule = "busy" | "free";
+
+export type CalendarEventPolicy = {
+  transparent?: EventBusyRule;
+  tentative?: EventBusyRule;
+  declined?: EventBusyRule;
+  needsAction?: EventBusyRule;
+  focusTime?: EventBusyRule;
+};
+
+export type GoogleEventsBusySourceOptions = {
+  id?: string;
+  hostTimezone: string;
+  policy?: CalendarEventPolicy;
+  calendarPolicies?: Record<string, CalendarEventPolicy>;
+  listEvents?: (options: Pick<ListCalendarEventsOptions, "calendarId" | "timeMin" | "timeMax">) => Promise<GoogleCalendarEvent[]>;
+};
+
+export const DEFAULT_EVENT_POLICY: Required<CalendarEventPolicy> = {
+  transparent: "free",
+  tentative: "busy",
+  declined: "free",
+  needsAction: "busy",
+  focusTime: "busy",
+};
+
+export const EVENT_POLICY_KEYS = Object.keys(DEFAULT_EVENT_POLICY) as (keyof CalendarEventPolicy)[];
+
+// Event types whose treatment is fixed regardless of transparency or the host's response.
+const FIXED_EVENT_TYPE_RULES: Record<string, EventBusyRule> = {
+  outOfOffice: "busy",
+  workingLocation: "free",
+  birthday: "free",
+};
+
+export function createGoogleEventsBusySource(options: GoogleEventsBusySourceOptions): BusySource {
+  const { id = "google-events", hostTimezone, policy, calendarPolicies = {}, listEvents = listCalendarEvents } = options;
+
+  return {
+    id,
+    provider: "google",
+    getBusy: async ({ timeMin, timeMax, calendarIds }) => {
+      const entries = await Promise.all(
+        calendarIds.map(async (calendarId) => {
+          const events = await listEvents({ calendarId, timeMin, timeMax });
+          const calendarPolicy = { ...DEFAULT_EVENT_POLICY, ...policy, ...calendarPolicies[calendarId] };
+          const ranges = events
+            .filter((event) => getEventBusyRule(event, calendarPolicy) === "busy")
+            .map((event) => getEventRange(event, hostTimezone))
+            .filter((range): range is BusyTimeRange => range !== null);
+
+          return [calendarId, ranges] as const;
+        }),
+      );
+
+      return Object.fromEntries(entries);
+    },
+  };
+}
+
+export function getEventBusyRule(event: GoogleCalendarEvent, policy: Required<CalendarEventPolicy>): EventBusyRule {
+  if (event.status === "cancelled") {
+    return "free";
+  }
+
+  const eventType = event.eventType ?? "default";
+  if (FIXED_EVENT_TYPE_RULES[eventType]) {
+    return FIXED_EVENT_TYPE_RULES[eventType];
+  }
+
+  if (eventType === "focusTime") {
+    return policy.focusTime;
+  }
+
+  if (event.transparency === "transparent") {
+    return policy.transparent;
+  }
+
+  const responseStatus = event.attendees?.find((attendee) => attendee.self)?.responseStatus;
+  if (responseStatus === "declined") {
+    return policy.declined;
+  }
+  if (responseStatus === "tentative") {
+    return policy.tentative;
+  }
+  if (responseStatus === "needsAction") {
+    return policy.needsAction;
+  }
+
+  return "busy";
+}
+
+function getEventRange(event: GoogleCalendarEvent, hostTimezone: string): BusyTimeRange | null {
+  if (event.startDate && event.endDate) {
+    return {
+      start: fromZonedTime(`${event.startDate}T00:00:00`, hostTimezone).toISOString(),
+      end: fromZonedTime(`${event.endDate}T00:00:00`, hostTimezone).toISOString(),
+    };
+  }
+
+  const startMs = Date.parse(event.start);
+  const endMs = Date.parse(event.end);
+  if (!Number.isFinite(startMs) || !Number.isFinite(endMs) || endMs <= startMs) {
+    return null;
+  }
+
+  return { start: new Date(startMs).toISOString(), end: new Date(endMs).toISOString() };
+}
@@ -0,0 +1,99 @@
+import type { BusySourceQuery, BusyTimesByCalendar } from "@/lib/busy-sources";
+
+export type CalendarSendUpdates = "all" | "externalOnly" | "none";
+
+export type CalendarAttendee = {
+  email: string;
+  displayName?: string;
+};
+
+export type CalendarEvent = {
+  id: string;
+  htmlLink?: string;
+  hangoutLink?: string;
+  start: string;
+  end: string;
+  // All-day events carry dates instead of times; `start`/`end` are empty for them.
+  startDate?: string;
+  endDate?: string;
+  status?: string;
+  transparency?: string;
+  eventType?: string;
+  attendees?: { email?: string; responseStatus?: string; self?: boolean }[];
+  privateProperties?: Record<string, string>;
+  created?: string;
+  raw: Record<string, unknown>;
+};
+
+export type CalendarEventReference = {
+  calendarId: string;
+  eventId: string;
+};
+
+export type CreateCalendarEventInput = {
+  calendarId: string;
+  summary: string;
+  description?: string;
+  start: Date | string;
+  end: Date | string;
+  attendees?: CalendarAttendee[];
+  privateProperties?: Record<string, string>;
+  sendUpdates?: CalendarSendUpdates;
+};
+
+export type UpdateCalendarEventInput = CalendarEventReference & {
+  start: Date | string;
+  end: Date | string;
+  summary?: string;
+  description?: string;
+  attendees?: CalendarAttendee[];
+  sendUpdates?: CalendarSendUpdates;
+};
+
+export type DeleteCalendarEventInput = CalendarEventReference & {
+  sendUpdates?: CalendarSendUpdates;
+};
+
+export type DeleteCalendarEventResult = { status: "deleted" } | { status: "not_found" };
+
+export type ListCalendarEventsInput = {
+  calendarId: string;
+  timeMin: Date | string;
+  timeMax: Date | string;
+  // Only events carrying every one of these private properties are returned.
+  privateProperties?: Record<string, string>;
+};
+
+export interface CalendarProvider {
+  readonly id: string;
+  getFreeBusy(query: BusySourceQuery): Promise<BusyTimesByCalendar>;
+  createEvent(input: CreateCalendarEventInput): Promise<CalendarEvent>;
+  updateEvent(input: UpdateCalendarEventInput): Promise<CalendarEvent>;
+  deleteEvent(input: DeleteCalendarEventInput): Promise<DeleteCalendarEventResult>;
+  getEvent(input: CalendarEventReference): Promise<CalendarEvent>;
+  listEvents(input: ListCalendarEventsInput): Promise<CalendarEvent[]>;
+  // Rejects when new bookings cannot be written to the calendar.
+  assertWritable(calendarId: string): Promise<void>;
+}
+
+export type CalendarProviderConfig = {
+  type: string;
+  [option: string]: unknown;
+};
+
+export type CalendarProviderFactory = (config: CalendarProviderConfig) => CalendarProvider;
+
+// Raised by providers when the calendar service rejects a request; `status` follows HTTP semantics.
+export class CalendarProviderError extends Error {
+  constructor(message: string, public readonly status: number, public readonly responseBody?: unknown) {
+    super(message);
+    this.name = "CalendarProviderError";
+  }
+}
+
+export class CalendarProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CalendarProviderConfigError";
+  }
+}
@@ -0,0 +1,64 @@
+import "server-only";
+
+import {
+  CalendarProviderConfigError,
+  type CalendarProvider,
+  type CalendarProviderConfig,
+  type CalendarProviderFactory,
+} from "@/lib/calendar-provider";
+import { createCalDavProvider, getCalDavProviderOptions } from "@/lib/caldav";
+import { createGoogleCalendarProvider } from "@/lib/google";
+import { HOST_TIMEZONE } from "@/lib/host-timezone";
+import { DEFAULT_HOST_ID, getHosts, type Host } from "@/lib/hosts";
+import { createMicrosoftCalendarProvider } from "@/lib/microsoft";
+
+const calendarProviderFactories = new Map<string, CalendarProviderFactory>([
+  ["google", () => createGoogleCalendarProvider()],
+  ["caldav", (config) => createCalDavProvider(getCalDavProviderOptions(config, HOST_TIMEZONE))],
+  [
+    "microsoft",
+    (config) =>
+      createMicrosoftCalendarProvider({
+        teamsMeeting:
+          typeof config.teamsMeeting === "boolean" ? config.teamsMeeting : process.env.MICROSOFT_TEAMS_MEETINGS === "true",
+      }),
+  ],
+]);
+
+export function registerCalendarProviderFactory(type: string, factory: CalendarProviderFactory): void {
+  calendarProviderFactories.set(type, factory);
+}
+
+// Used for the env-configured default host and for hosts without a `provider`.
+export function getDefaultCalendarProviderConfig(): CalendarProviderConfig {
+  return { type: process.env.CALENDAR_PROVIDER?.trim() || "google" };
+}
+
+export function getHostCalendarProviderConfig(host?: Host): CalendarProviderConfig {
+  if (!host?.provider) {
+    return getDefaultCalendarProviderConfig();
+  }
+
+  return typeof host.provider === "string" ? { type: host.provider } : host.provider;
+}
+
+export function createCalendarProvider(config: CalendarProviderConfig): CalendarProvider {
+  const factory = calendarProviderFactories.get(config.type);
+  if (!factory) {
+    throw new CalendarProviderConfigError(`Unknown calendar provider type "${config.type}".`);
+  }
+
+  return factory(config);
+}
+
+// Signed links carry the host ID; hosts since removed from config fall back to the default provider.
+export function getCalendarProviderForHost(host?: Host | string): CalendarProvider {
+  const resolved =
+    typeof host === "string"
+      ? host === DEFAULT_HOST_ID
+        ? undefined
+        : getHosts().find((candidate) => candidate.id === host)
+      : host;
+
+  return createCalendarProvider(getHostCalendarProviderConfig(resolved));
+}
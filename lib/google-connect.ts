@@ -0,0 +1,74 @@
+import "server-only";
+
+import { timingSafeEqual } from "node:crypto";
+
+import { buildAbsoluteUrl } from "@/lib/url";
+
+export const GOOGLE_CONNECT_COOKIE = "google_connect";
+export const GOOGLE_CONNECT_COOKIE_PATH = "/api/integrations/google";
+export const GOOGLE_CONNECT_TTL_SECONDS = 10 * 60;
+
+const CALLBACK_PATH = "/api/integrations/google/callback";
+
+export type GoogleConnectSession = {
+  state: string;
+  codeVerifier: string;
+  redirectUri: string;
+  // The calendar this connection is for; without one it serves every calendar.
+  calendarId?: string;
+};
+
+export function getGoogleConnectRedirectUri(request: Request): string {
+  return process.env.GOOGLE_OAUTH_REDIRECT_URI?.trim() || buildAbsoluteUrl(CALLBACK_PATH, request);
+}
+
+// The connect link replaces the calendar credential, so it only works for whoever holds the secret.
+export function isGoogleConnectAuthorized(providedSecret: string | null): boolean {
+  const secret = process.env.GOOGLE_CONNECT_SECRET;
+  if (!secret || !providedSecret) {
+    return false;
+  }
+
+  return safeEqual(secret, providedSecret);
+}
+
+export function encodeGoogleConnectSession(session: GoogleConnectSession): string {
+  return Buffer.from(JSON.stringify(session)).toString("base64url");
+}
+
+export function decodeGoogleConnectSession(value: string | undefined): GoogleConnectSession | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8")) as Partial<GoogleConnectSession>;
+    if (
+      typeof parsed.state !== "string" ||
+      typeof parsed.codeVerifier !== "string" ||
+      typeof parsed.redirectUri !== "string"
+    ) {
+      return null;
+    }
+
+    return {
+      state: parsed.state,
+      codeVerifier: parsed.codeVerifier,
+      redirectUri: parsed.redirectUri,
+      ...(typeof parsed.calendarId === "string" ? { calendarId: parsed.calendarId } : {}),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function isGoogleConnectStateValid(session: GoogleConnectSession, state: string | null): boolean {
+  return Boolean(state) && safeEqual(session.state, state ?? "");
+}
+
+function safeEqual(expected: string, actual: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(actual);
+
+  return expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer);
+}
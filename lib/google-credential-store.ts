@@ -0,0 +1,193 @@
+import "server-only";
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from "node:fs";
+import { join, dirname } from "node:path";
+
+const CIPHER_ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+
+export type StoredGoogleCredentials = {
+  refreshToken: string;
+  scope?: string;
+  connectedAt: number;
+};
+
+// Credentials connected for one calendar, plus the account-wide connection under ANY_CALENDAR.
+type StoredCredentialsByCalendar = Record<string, StoredGoogleCredentials>;
+
+type EncryptedEnvelope = {
+  version: 1;
+  iv: string;
+  tag: string;
+  data: string;
+};
+
+export class GoogleCredentialStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GoogleCredentialStoreError";
+  }
+}
+
+const DEFAULT_STORE_PATH = join(process.cwd(), ".cache", "google-credentials.json");
+const ANY_CALENDAR = "*";
+
+// The store is read once per process; writes through this module keep the copy current.
+let cachedStore: StoredCredentialsByCalendar | null = null;
+
+function getStorePath(): string {
+  return process.env.GOOGLE_CREDENTIAL_STORE_PATH?.trim() || DEFAULT_STORE_PATH;
+}
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.GOOGLE_CREDENTIAL_STORE_KEY?.trim() || process.env.SIGNING_SECRET;
+  if (!secret) {
+    throw new GoogleCredentialStoreError(
+      "Missing GOOGLE_CREDENTIAL_STORE_KEY (or SIGNING_SECRET) for the Google credential store.",
+    );
+  }
+
+  return createHash("sha256").update(secret).digest();
+}
+
+function ensureDirectoryExists(filePath: string): void {
+  const directory = dirname(filePath);
+  if (!existsSync(directory)) {
+    mkdirSync(directory, { recursive: true });
+  }
+}
+
+function isMissingFileError(error: unknown): boolean {
+  return typeof error === "object" && error !== null && "code" in error && (error as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+function encrypt(value: StoredCredentialsByCalendar): EncryptedEnvelope {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER_ALGORITHM, getEncryptionKey(), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), "utf8"), cipher.final()]);
+
+  return {
+    version: 1,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+function decrypt(envelope: Partial<EncryptedEnvelope>): unknown {
+  if (typeof envelope.iv !== "string" || typeof envelope.tag !== "string" || typeof envelope.data !== "string") {
+    throw new GoogleCredentialStoreError("Google credential store is malformed.");
+  }
+
+  try {
+    const decipher = createDecipheriv(CIPHER_ALGORITHM, getEncryptionKey(), Buffer.from(envelope.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(envelope.data, "base64")), decipher.final()]);
+    return JSON.parse(plaintext.toString("utf8"));
+  } catch (error) {
+    if (error instanceof GoogleCredentialStoreError) {
+      throw error;
+    }
+    throw new GoogleCredentialStoreError(
+      "Could not decrypt the Google credential store; check GOOGLE_CREDENTIAL_STORE_KEY or reconnect the account.",
+    );
+  }
+}
+
+// Returns the credentials connected for this calendar, else the account-wide connection.
+export function readStoredGoogleCredentials(calendarId?: string): StoredGoogleCredentials | null {
+  const store = loadStore();
+  return (calendarId ? store[calendarId] : undefined) ?? store[ANY_CALENDAR] ?? null;
+}
+
+// Without a calendar ID the credentials apply to every calendar that has none of its own.
+export function writeStoredGoogleCredentials(credentials: StoredGoogleCredentials, calendarId?: string): void {
+  const store = { ...loadStore(), [calendarId || ANY_CALENDAR]: credentials };
+  const storePath = getStorePath();
+
+  try {
+    ensureDirectoryExists(storePath);
+
+    const serialized = JSON.stringify(encrypt(store), null, 2);
+    const tempPath = `${storePath}.tmp`;
+
+    writeFileSync(tempPath, serialized, { encoding: "utf8", mode: 0o600 });
+    renameSync(tempPath, storePath);
+  } catch (error) {
+    if (error instanceof GoogleCredentialStoreError) {
+      throw error;
+    }
+    throw new GoogleCredentialStoreError(
+      `Could not write the Google credential store at ${storePath}; it needs a writable, persistent filesystem.`,
+    );
+  }
+
+  cachedStore = store;
+}
+
+export function clearStoredGoogleCredentials(): void {
+  cachedStore = null;
+
+  try {
+    unlinkSync(getStorePath());
+  } catch (error) {
+    if (isMissingFileError(error)) {
+      return;
+    }
+    throw error;
+  }
+}
+
+// Drops the in-memory copy so the next lookup reads the file again.
+export function clearGoogleCredentialStoreCache(): void {
+  cachedStore = null;
+}
+
+function loadStore(): StoredCredentialsByCalendar {
+  if (!cachedStore) {
+    cachedStore = readStore();
+  }
+
+  return cachedStore;
+}
+
+function readStore(): StoredCredentialsByCalendar {
+  let fileContents: string;
+
+  try {
+    fileContents = readFileSync(getStorePath(), "utf8");
+  } catch (error) {
+    if (isMissingFileError(error)) {
+      return {};
+    }
+    throw new GoogleCredentialStoreError(`Could not read the Google credential store at ${getStorePath()}.`);
+  }
+
+  let envelope: Partial<EncryptedEnvelope>;
+  try {
+    envelope = JSON.parse(fileContents);
+  } catch {
+    throw new GoogleCredentialStoreError("Google credential store is malformed.");
+  }
+
+  const records = decrypt(envelope ?? {});
+  const store: StoredCredentialsByCalendar = {};
+  if (!records || typeof records !== "object") {
+    return store;
+  }
+
+  for (const [calendarId, value] of Object.entries(records as Record<string, Partial<StoredGoogleCredentials>>)) {
+    if (!value || typeof value.refreshToken !== "string" || value.refreshToken.length === 0) {
+      continue;
+    }
+
+    store[calendarId] = {
+      refreshToken: value.refreshToken,
+      scope: typeof value.scope === "string" ? value.scope : undefined,
+      connectedAt: typeof value.connectedAt === "number" ? value.connectedAt : Date.now(),
+    };
+  }
+
+  return store;
+}
@@ -3,6 +3,7 @@ import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
 import {
   GoogleAuthConfigError,
   GoogleAuthError,
+  clearGoogleAccessTokenCache,
   getGoogleAccessToken,
 } from "./google";
 
@@ -10,6 +11,7 @@ const ORIGINAL_ENV = process.env;
 
 describe("getGoogleAccessToken", () => {
   beforeEach(() => {
+    clearGoogleAccessTokenCache();
     process.env = { ...ORIGINAL_ENV };
     process.env.GOOGLE_CLIENT_ID = "test-client";
     process.env.GOOGLE_CLIENT_SECRET = "test-secret";
@@ -1,15 +1,40 @@
-import { randomUUID } from "node:crypto";
-
+import "server-only";
+
+import { createHash, createSign, randomBytes, randomUUID } from "node:crypto";
+
+import {
+  CalendarProviderConfigError,
+  CalendarProviderError,
+  type CalendarAttendee,
+  type CalendarEvent,
+  type CalendarProvider,
+  type DeleteCalendarEventResult,
+} from "@/lib/calendar-provider";
+import { GoogleCredentialStoreError, readStoredGoogleCredentials } from "@/lib/google-credential-store";
+import { sendWithRetry, type RetriedResponse } from "@/lib/retry";
+
+const GOOGLE_AUTHORIZATION_ENDPOINT = "https://accounts.google.com/o/oauth2/v2/auth";
 const GOOGLE_TOKEN_ENDPOINT = "https://oauth2.googleapis.com/token";
 const GOOGLE_FREEBUSY_ENDPOINT = "https://www.googleapis.com/calendar/v3/freeBusy";
 const GOOGLE_EVENTS_BASE = "https://www.googleapis.com/calendar/v3/calendars";
+const GOOGLE_CALENDAR_LIST_BASE = "https://www.googleapis.com/calendar/v3/users/me/calendarList";
+const WRITABLE_ACCESS_ROLES = new Set(["owner", "writer"]);
+const GOOGLE_CALENDAR_SCOPE = "https://www.googleapis.com/auth/calendar";
+const JWT_BEARER_GRANT_TYPE = "urn:ietf:params:oauth:grant-type:jwt-bearer";
+const SERVICE_ACCOUNT_ASSERTION_LIFETIME_SECONDS = 60 * 60;
+
+// Refresh a little before Google's expiry so in-flight requests never carry a stale token.
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
 
 type FetchLike = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
 
+export type GoogleAuthStrategy = "oauth" | "service-account";
+
 export type GoogleHealthStatus = {
   status: "ok" | "degraded" | "error";
   detail: string;
   source: "mock" | "live";
+  strategy?: GoogleAuthStrategy;
 };
 
 export type GoogleOAuthConfig = {
@@ -18,6 +43,24 @@ export type GoogleOAuthConfig = {
   refreshToken: string;
 };
 
+export type GoogleAuthorizationRequest = {
+  url: string;
+  state: string;
+  codeVerifier: string;
+};
+
+export type GoogleAuthorizationCodeExchange = {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+};
+
+export type GoogleServiceAccountConfig = {
+  clientEmail: string;
+  privateKey: string;
+  subject?: string;
+};
+
 export type GoogleAccessToken = {
   accessToken: string;
   expiresIn: number;
@@ -42,24 +85,37 @@ export class GoogleAuthError extends Error {
   }
 }
 
-export class GoogleCalendarConfigError extends Error {
+export class GoogleCalendarConfigError extends CalendarProviderConfigError {
   constructor(message: string) {
     super(message);
     this.name = "GoogleCalendarConfigError";
   }
 }
 
-export class GoogleApiError extends Error {
-  constructor(message: string, public readonly status: number, public readonly responseBody?: unknown) {
-    super(message);
+export class GoogleApiError extends CalendarProviderError {
+  constructor(message: string, status: number, responseBody?: unknown) {
+    super(message, status, responseBody);
     this.name = "GoogleApiError";
   }
 }
 
-export function getGoogleOAuthConfig(): GoogleOAuthConfig {
+export class GoogleSyncTokenExpiredError extends GoogleApiError {
+  constructor(responseBody?: unknown) {
+    super("Google Calendar sync token is no longer valid; run a full sync.", 410, responseBody);
+    this.name = "GoogleSyncTokenExpiredError";
+  }
+}
+
+const writableCalendarIds = new Set<string>();
+const cachedAccessTokens = new Map<string, GoogleAccessToken>();
+const pendingTokenRefreshes = new Map<string, Promise<GoogleAccessToken>>();
+
+// A refresh token saved by the browser connect flow (for this calendar, or for every calendar)
+// wins over GOOGLE_REFRESH_TOKEN.
+export function getGoogleOAuthConfig(calendarId?: string): GoogleOAuthConfig {
   const clientId = process.env.GOOGLE_CLIENT_ID;
   const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
-  const refreshToken = process.env.GOOGLE_REFRESH_TOKEN;
+  const refreshToken = readStoredGoogleCredentials(calendarId)?.refreshToken ?? process.env.GOOGLE_REFRESH_TOKEN;
 
   if (!clientId || !clientSecret || !refreshToken) {
     const missing: string[] = [];
@@ -80,9 +136,218 @@ export function getGoogleOAuthConfig(): GoogleOAuthConfig {
   };
 }
 
-export async function getGoogleAccessToken(fetchImpl: FetchLike = fetch): Promise<GoogleAccessToken> {
-  const { clientId, clientSecret, refreshToken } = getGoogleOAuthConfig();
+export function createGoogleAuthorizationRequest(redirectUri: string): GoogleAuthorizationRequest {
+  const clientId = process.env.GOOGLE_CLIENT_ID;
+  if (!clientId) {
+    throw new GoogleAuthConfigError("Missing required Google OAuth environment variables: GOOGLE_CLIENT_ID", [
+      "GOOGLE_CLIENT_ID",
+    ]);
+  }
+
+  const state = randomBytes(32).toString("base64url");
+  const codeVerifier = randomBytes(32).toString("base64url");
+  const codeChallenge = createHash("sha256").update(codeVerifier).digest("base64url");
+
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: "code",
+    scope: GOOGLE_CALENDAR_SCOPE,
+    // Offline access plus a forced consent screen makes Google issue a refresh token every time.
+    access_type: "offline",
+    prompt: "consent",
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+  });
+
+  return { url: `${GOOGLE_AUTHORIZATION_ENDPOINT}?${params.toString()}`, state, codeVerifier };
+}
+
+export async function exchangeGoogleAuthorizationCode(
+  { code, codeVerifier, redirectUri }: GoogleAuthorizationCodeExchange,
+  fetchImpl: FetchLike = fetch,
+): Promise<GoogleAccessToken & { refreshToken: string }> {
+  const clientId = process.env.GOOGLE_CLIENT_ID;
+  const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) {
+    const missing: string[] = [];
+    if (!clientId) missing.push("GOOGLE_CLIENT_ID");
+    if (!clientSecret) missing.push("GOOGLE_CLIENT_SECRET");
+
+    throw new GoogleAuthConfigError(
+      `Missing required Google OAuth environment variables: ${missing.join(", ")}`,
+      missing,
+    );
+  }
+
+  const token = await requestGoogleToken(
+    new URLSearchParams({
+      client_id: clientId,
+      client_secret: clientSecret,
+      code,
+      code_verifier: codeVerifier,
+      redirect_uri: redirectUri,
+      grant_type: "authorization_code",
+    }),
+    "Failed to exchange Google authorization code.",
+    fetchImpl,
+  );
+
+  const refreshToken = typeof token.raw.refresh_token === "string" ? token.raw.refresh_token : "";
+  if (!refreshToken) {
+    throw new GoogleAuthError("Google did not return a refresh token for this authorization.", 400, token.raw);
+  }
+
+  return { ...token, refreshToken };
+}
+
+export function getGoogleAuthStrategy(): GoogleAuthStrategy {
+  const value = process.env.GOOGLE_AUTH_STRATEGY?.trim() || "oauth";
+  if (value !== "oauth" && value !== "service-account") {
+    throw new GoogleAuthConfigError(
+      `Unsupported GOOGLE_AUTH_STRATEGY "${value}". Use "oauth" or "service-account".`,
+      [],
+    );
+  }
+
+  return value;
+}
+
+export function getGoogleServiceAccountConfig(): GoogleServiceAccountConfig {
+  const clientEmail = process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL;
+  // Keys pasted into env files usually carry literal "\n" sequences instead of line breaks.
+  const privateKey = process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY?.replace(/\\n/g, "\n");
+  const subject = process.env.GOOGLE_SERVICE_ACCOUNT_SUBJECT?.trim() || undefined;
+
+  if (!clientEmail || !privateKey) {
+    const missing: string[] = [];
+    if (!clientEmail) missing.push("GOOGLE_SERVICE_ACCOUNT_EMAIL");
+    if (!privateKey) missing.push("GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY");
+
+    throw new GoogleAuthConfigError(
+      `Missing required Google service account environment variables: ${missing.join(", ")}`,
+      missing,
+    );
+  }
+
+  return { clientEmail, privateKey, subject };
+}
+
+// `calendarId` picks the user a service account impersonates; the OAuth strategy ignores it.
+export async function getGoogleAccessToken(
+  fetchImpl: FetchLike = fetch,
+  calendarId?: string,
+): Promise<GoogleAccessToken> {
+  const { cacheKey, exchange } = getTokenExchange(calendarId);
+
+  const cached = cachedAccessTokens.get(cacheKey);
+  if (cached && cached.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+    return cached;
+  }
+
+  const pending = pendingTokenRefreshes.get(cacheKey);
+  if (pending) {
+    return pending;
+  }
+
+  const promise = exchange(fetchImpl)
+    .then((token) => {
+      cachedAccessTokens.set(cacheKey, token);
+      return token;
+    })
+    .finally(() => {
+      if (pendingTokenRefreshes.get(cacheKey) === promise) {
+        pendingTokenRefreshes.delete(cacheKey);
+      }
+    });
+  pendingTokenRefreshes.set(cacheKey, promise);
+
+  return promise;
+}
+
+export function clearGoogleAccessTokenCache(): void {
+  cachedAccessTokens.clear();
+  pendingTokenRefreshes.clear();
+  writableCalendarIds.clear();
+}
+
+function getTokenExchange(calendarId?: string): {
+  cacheKey: string;
+  exchange: (fetchImpl: FetchLike) => Promise<GoogleAccessToken>;
+} {
+  if (getGoogleAuthStrategy() === "service-account") {
+    const config = getGoogleServiceAccountConfig();
+    const subject = getImpersonationSubject(config, calendarId);
+
+    return {
+      cacheKey: `service-account:${config.clientEmail}:${subject}`,
+      exchange: (fetchImpl) => exchangeServiceAccountAssertion(config, subject, fetchImpl),
+    };
+  }
+
+  const config = getGoogleOAuthConfig(calendarId);
+  return {
+    cacheKey: `oauth:${config.clientId}:${config.refreshToken}`,
+    exchange: (fetchImpl) => exchangeGoogleRefreshToken(config, fetchImpl),
+  };
+}
+
+// Primary calendars are named after their owner's address, so impersonate that user; shared
+// calendars (and "primary") fall back to the configured subject.
+function getImpersonationSubject(config: GoogleServiceAccountConfig, calendarId?: string): string {
+  if (calendarId && calendarId.includes("@") && !calendarId.endsWith(".calendar.google.com")) {
+    return calendarId;
+  }
 
+  if (!config.subject) {
+    throw new GoogleAuthConfigError(
+      `Cannot tell which user to impersonate for calendar "${calendarId ?? "primary"}". Set GOOGLE_SERVICE_ACCOUNT_SUBJECT.`,
+      ["GOOGLE_SERVICE_ACCOUNT_SUBJECT"],
+    );
+  }
+
+  return config.subject;
+}
+
+async function exchangeServiceAccountAssertion(
+  { clientEmail, privateKey }: GoogleServiceAccountConfig,
+  subject: string,
+  fetchImpl: FetchLike,
+): Promise<GoogleAccessToken> {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const assertion = signJwt(
+    {
+      iss: clientEmail,
+      sub: subject,
+      scope: GOOGLE_CALENDAR_SCOPE,
+      aud: GOOGLE_TOKEN_ENDPOINT,
+      iat: issuedAt,
+      exp: issuedAt + SERVICE_ACCOUNT_ASSERTION_LIFETIME_SECONDS,
+    },
+    privateKey,
+  );
+
+  return requestGoogleToken(
+    new URLSearchParams({ grant_type: JWT_BEARER_GRANT_TYPE, assertion }),
+    "Failed to exchange Google service account assertion.",
+    fetchImpl,
+  );
+}
+
+function signJwt(claims: Record<string, unknown>, privateKey: string): string {
+  const encode = (value: Record<string, unknown>) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const unsigned = `${encode({ alg: "RS256", typ: "JWT" })}.${encode(claims)}`;
+  const signature = createSign("RSA-SHA256").update(unsigned).sign(privateKey, "base64url");
+
+  return `${unsigned}.${signature}`;
+}
+
+async function exchangeGoogleRefreshToken(
+  { clientId, clientSecret, refreshToken }: GoogleOAuthConfig,
+  fetchImpl: FetchLike,
+): Promise<GoogleAccessToken> {
   const requestBody = new URLSearchParams({
     client_id: clientId,
     client_secret: clientSecret,
@@ -90,6 +355,14 @@ export async function getGoogleAccessToken(fetchImpl: FetchLike = fetch): Promis
     grant_type: "refresh_token",
   });
 
+  return requestGoogleToken(requestBody, "Failed to exchange Google refresh token.", fetchImpl);
+}
+
+async function requestGoogleToken(
+  requestBody: URLSearchParams,
+  fallbackErrorDescription: string,
+  fetchImpl: FetchLike,
+): Promise<GoogleAccessToken> {
   const response = await fetchImpl(GOOGLE_TOKEN_ENDPOINT, {
     method: "POST",
     headers: {
@@ -105,7 +378,7 @@ export async function getGoogleAccessToken(fetchImpl: FetchLike = fetch): Promis
     const errorDescription =
       typeof payload.error_description === "string"
         ? payload.error_description
-        : "Failed to exchange Google refresh token.";
+        : fallbackErrorDescription;
 
     throw new GoogleAuthError(`${errorCode}: ${errorDescription}`, response.status, payload);
   }
@@ -148,10 +421,7 @@ export type GoogleFreeBusyOptions = {
   fetchImpl?: FetchLike;
 };
 
-export type GoogleCalendarAttendee = {
-  email: string;
-  displayName?: string;
-};
+export type GoogleCalendarAttendee = CalendarAttendee;
 
 export type CreateCalendarEventOptions = {
   calendarId: string;
@@ -160,7 +430,16 @@ export type CreateCalendarEventOptions = {
   start: Date | string;
   end: Date | string;
   attendees?: GoogleCalendarAttendee[];
+  privateProperties?: Record<string, string>;
   sendUpdates?: "all" | "externalOnly" | "none";
+  // Client-supplied ID (base32hex, 5–1024 chars) that makes the insert safe to retry; generated when omitted.
+  eventId?: string;
+  fetchImpl?: FetchLike;
+};
+
+export type GetCalendarEventOptions = {
+  calendarId: string;
+  eventId: string;
   fetchImpl?: FetchLike;
 };
 
@@ -176,14 +455,33 @@ export type UpdateCalendarEventOptions = {
   fetchImpl?: FetchLike;
 };
 
-export type GoogleCalendarEvent = {
-  id: string;
-  htmlLink?: string;
-  hangoutLink?: string;
-  start: string;
-  end: string;
-  attendees?: { email?: string; responseStatus?: string }[];
-  raw: Record<string, unknown>;
+export type GoogleCalendarEvent = CalendarEvent;
+
+export type ListCalendarEventsOptions = {
+  calendarId: string;
+  timeMin: Date | string;
+  timeMax: Date | string;
+  privateExtendedProperty?: string[];
+  singleEvents?: boolean;
+  showDeleted?: boolean;
+  maxResults?: number;
+  fetchImpl?: FetchLike;
+};
+
+export type SyncCalendarEventsOptions = {
+  calendarId: string;
+  syncToken?: string;
+  // Only used for the initial full sync; Google rejects time bounds alongside a sync token.
+  timeMin?: Date | string;
+  timeMax?: Date | string;
+  singleEvents?: boolean;
+  maxResults?: number;
+  fetchImpl?: FetchLike;
+};
+
+export type SyncCalendarEventsResult = {
+  events: GoogleCalendarEvent[];
+  nextSyncToken?: string;
 };
 
 export type DeleteCalendarEventOptions = {
@@ -193,9 +491,7 @@ export type DeleteCalendarEventOptions = {
   fetchImpl?: FetchLike;
 };
 
-export type DeleteCalendarEventResult =
-  | { status: "deleted" }
-  | { status: "not_found" };
+export type { DeleteCalendarEventResult };
 
 export function getGoogleCalendarIds(): string[] {
   const envValue = process.env.GOOGLE_CALENDAR_ID ?? process.env.GOOGLE_CALENDAR_IDS;
@@ -219,6 +515,110 @@ export function getGoogleCalendarIds(): string[] {
   return ids;
 }
 
+// Calendars checked for conflicts; GOOGLE_CALENDAR_ID covers both roles when these are unset.
+export function getGoogleCheckCalendarIds(): string[] {
+  const envValue = process.env.GOOGLE_CHECK_CALENDAR_IDS;
+  if (envValue === undefined) {
+    return getGoogleCalendarIds();
+  }
+
+  const ids = envValue
+    .split(",")
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+
+  if (ids.length === 0) {
+    throw new GoogleCalendarConfigError(
+      "GOOGLE_CHECK_CALENDAR_IDS environment variable is defined but empty. Provide at least one calendar ID.",
+    );
+  }
+
+  return ids;
+}
+
+// The calendar new bookings are written to.
+export function getGoogleWriteCalendarId(): string {
+  return process.env.GOOGLE_WRITE_CALENDAR_ID?.trim() || getGoogleCalendarIds()[0];
+}
+
+// Returns null when the calendar is not on the connected account's calendar list.
+export async function getCalendarAccessRole(calendarId: string, fetchImpl: FetchLike = fetch): Promise<string | null> {
+  const endpoint = new URL(`${GOOGLE_CALENDAR_LIST_BASE}/${encodeURIComponent(calendarId)}`);
+
+  const { response } = await sendGoogleRequest(fetchImpl, endpoint, { method: "GET" }, { calendarId });
+  const payload = await response.json().catch(() => ({}));
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const message =
+      typeof payload.error?.message === "string" ? payload.error.message : "Failed to fetch Google calendar access.";
+    throw new GoogleApiError(message, response.status, payload);
+  }
+
+  return typeof payload.accessRole === "string" ? payload.accessRole : null;
+}
+
+export async function assertCalendarWritable(calendarId: string, fetchImpl: FetchLike = fetch): Promise<void> {
+  if (writableCalendarIds.has(calendarId)) {
+    return;
+  }
+
+  const accessRole = await getCalendarAccessRole(calendarId, fetchImpl);
+  if (!accessRole || !WRITABLE_ACCESS_ROLES.has(accessRole)) {
+    throw new GoogleCalendarConfigError(
+      `Bookings cannot be written to calendar "${calendarId}" (access role: ${accessRole ?? "none"}). Choose a calendar the host owns or can edit.`,
+    );
+  }
+
+  writableCalendarIds.add(calendarId);
+}
+
+// A 401 means Google no longer accepts the cached token (revoked or rotated), so drop it,
+// refresh once and replay the request.
+async function fetchWithGoogleAuth(
+  fetchImpl: FetchLike,
+  input: URL | string,
+  init: RequestInit,
+  calendarId?: string,
+): Promise<Response> {
+  const send = (token: GoogleAccessToken) =>
+    fetchImpl(input, {
+      ...init,
+      headers: {
+        ...(init.headers as Record<string, string> | undefined),
+        Authorization: `${token.tokenType} ${token.accessToken}`.trim(),
+      },
+    });
+
+  const token = await getGoogleAccessToken(fetchImpl, calendarId);
+  const response = await send(token);
+  if (response.status !== 401) {
+    return response;
+  }
+
+  for (const [cacheKey, cachedToken] of cachedAccessTokens) {
+    if (cachedToken === token) {
+      cachedAccessTokens.delete(cacheKey);
+    }
+  }
+
+  return send(await getGoogleAccessToken(fetchImpl, calendarId));
+}
+
+// Every request sent here must be safe to repeat: reads, full-field PATCHes, DELETEs and
+// inserts that carry a client-supplied event ID.
+async function sendGoogleRequest(
+  fetchImpl: FetchLike,
+  input: URL | string,
+  init: RequestInit,
+  { calendarId }: { calendarId?: string },
+): Promise<RetriedResponse> {
+  return sendWithRetry(() => fetchWithGoogleAuth(fetchImpl, input, init, calendarId));
+}
+
 function toUtcISOString(value: Date | string): string {
   const date = value instanceof Date ? value : new Date(value);
   if (Number.isNaN(date.getTime())) {
@@ -229,24 +629,46 @@ function toUtcISOString(value: Date | string): string {
 }
 
 export async function getGoogleFreeBusy(options: GoogleFreeBusyOptions): Promise<GoogleFreeBusyResult> {
-  const { timeMin, timeMax, calendarIds = getGoogleCalendarIds(), fetchImpl = fetch } = options;
+  const { timeMin, timeMax, calendarIds = getGoogleCheckCalendarIds(), fetchImpl = fetch } = options;
 
-  const token = await getGoogleAccessToken(fetchImpl);
+  // A FreeBusy request is authorized as a single user, so calendars that need different
+  // credentials (e.g. another impersonated host) are queried separately.
+  const calendarIdsByCredential = new Map<string, string[]>();
+  for (const calendarId of calendarIds) {
+    const { cacheKey } = getTokenExchange(calendarId);
+    calendarIdsByCredential.set(cacheKey, [...(calendarIdsByCredential.get(cacheKey) ?? []), calendarId]);
+  }
 
+  const results = await Promise.all(
+    [...calendarIdsByCredential.values()].map((ids) => fetchGoogleFreeBusy(ids, timeMin, timeMax, fetchImpl)),
+  );
+  return Object.assign({}, ...results);
+}
+
+async function fetchGoogleFreeBusy(
+  calendarIds: string[],
+  timeMin: Date | string,
+  timeMax: Date | string,
+  fetchImpl: FetchLike,
+): Promise<GoogleFreeBusyResult> {
   const body = {
     timeMin: toUtcISOString(timeMin),
     timeMax: toUtcISOString(timeMax),
     items: calendarIds.map((id) => ({ id })),
   };
 
-  const response = await fetchImpl(GOOGLE_FREEBUSY_ENDPOINT, {
-    method: "POST",
-    headers: {
-      Authorization: `${token.tokenType} ${token.accessToken}`.trim(),
-      "Content-Type": "application/json",
+  const { response } = await sendGoogleRequest(
+    fetchImpl,
+    GOOGLE_FREEBUSY_ENDPOINT,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
     },
-    body: JSON.stringify(body),
-  });
+    { calendarId: calendarIds[0] },
+  );
 
   const payload = await response.json().catch(() => ({}));
 
@@ -258,10 +680,23 @@ export async function getGoogleFreeBusy(options: GoogleFreeBusyOptions): Promise
     throw new GoogleApiError(message, response.status, payload);
   }
 
-  const calendarsPayload = (payload?.calendars ?? {}) as Record<string, { busy?: GoogleBusyTimeRange[] }>;
+  const calendarsPayload = (payload?.calendars ?? {}) as Record<
+    string,
+    { busy?: GoogleBusyTimeRange[]; errors?: { reason?: string }[] }
+  >;
   const result: GoogleFreeBusyResult = {};
 
   for (const calendarId of calendarIds) {
+    // Google still answers 200 for calendars it could not read; treating those as free would double-book.
+    const errors = calendarsPayload[calendarId]?.errors ?? [];
+    if (errors.length > 0) {
+      throw new GoogleApiError(
+        `Google could not return busy time for calendar "${calendarId}" (${errors.map((error) => error.reason ?? "unknown").join(", ")}).`,
+        502,
+        payload,
+      );
+    }
+
     const busyEntries = calendarsPayload[calendarId]?.busy ?? [];
     result[calendarId] = busyEntries.map((entry) => ({ start: entry.start, end: entry.end }));
   }
@@ -277,12 +712,12 @@ export async function createCalendarEvent(options: CreateCalendarEventOptions):
     start,
     end,
     attendees = [],
+    privateProperties,
     sendUpdates = "all",
+    eventId = randomUUID().replace(/-/g, ""),
     fetchImpl = fetch,
   } = options;
 
-  const token = await getGoogleAccessToken(fetchImpl);
-
   const endpoint = new URL(`${GOOGLE_EVENTS_BASE}/${encodeURIComponent(calendarId)}/events`);
   endpoint.searchParams.set("sendUpdates", sendUpdates);
   endpoint.searchParams.set("conferenceDataVersion", "1");
@@ -290,37 +725,48 @@ export async function createCalendarEvent(options: CreateCalendarEventOptions):
   const startIso = toUtcISOString(start);
   const endIso = toUtcISOString(end);
 
-  const response = await fetchImpl(endpoint, {
-    method: "POST",
-    headers: {
-      Authorization: `${token.tokenType} ${token.accessToken}`.trim(),
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      summary,
-      description,
-      start: {
-        dateTime: startIso,
-        timeZone: "UTC",
+  const { response, attempts } = await sendGoogleRequest(
+    fetchImpl,
+    endpoint,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
       },
-      end: {
-        dateTime: endIso,
-        timeZone: "UTC",
-      },
-      attendees: attendees.map((attendee) => ({
-        email: attendee.email,
-        displayName: attendee.displayName,
-      })),
-      conferenceData: {
-        createRequest: {
-          conferenceSolutionKey: {
-            type: "hangoutsMeet",
+      body: JSON.stringify({
+        id: eventId,
+        summary,
+        description,
+        start: {
+          dateTime: startIso,
+          timeZone: "UTC",
+        },
+        end: {
+          dateTime: endIso,
+          timeZone: "UTC",
+        },
+        attendees: attendees.map((attendee) => ({
+          email: attendee.email,
+          displayName: attendee.displayName,
+        })),
+        conferenceData: {
+          createRequest: {
+            conferenceSolutionKey: {
+              type: "hangoutsMeet",
+            },
+            requestId: randomUUID(),
           },
-          requestId: randomUUID(),
         },
-      },
-    }),
-  });
+        ...(privateProperties ? { extendedProperties: { private: privateProperties } } : {}),
+      }),
+    },
+    { calendarId },
+  );
+
+  // A conflict on a retried insert means an earlier attempt already created the event.
+  if (response.status === 409 && attempts > 1) {
+    return getCalendarEvent({ calendarId, eventId, fetchImpl });
+  }
 
   const payload = await response.json().catch(() => ({}));
 
@@ -335,24 +781,43 @@ export async function createCalendarEvent(options: CreateCalendarEventOptions):
   return mapGoogleEventPayload(payload, startIso, endIso);
 }
 
+export async function getCalendarEvent(options: GetCalendarEventOptions): Promise<GoogleCalendarEvent> {
+  const { calendarId, eventId, fetchImpl = fetch } = options;
+
+  const endpoint = new URL(
+    `${GOOGLE_EVENTS_BASE}/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
+  );
+
+  const { response } = await sendGoogleRequest(fetchImpl, endpoint, { method: "GET" }, { calendarId });
+  const payload = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const message =
+      typeof payload.error?.message === "string" ? payload.error.message : "Failed to fetch Google Calendar event.";
+    throw new GoogleApiError(message, response.status, payload);
+  }
+
+  return mapGoogleEventPayload(payload, "", "");
+}
+
 export async function deleteCalendarEvent(options: DeleteCalendarEventOptions): Promise<DeleteCalendarEventResult> {
   const { calendarId, eventId, sendUpdates = "all", fetchImpl = fetch } = options;
 
-  const token = await getGoogleAccessToken(fetchImpl);
   const endpoint = new URL(
     `${GOOGLE_EVENTS_BASE}/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
   );
   endpoint.searchParams.set("sendUpdates", sendUpdates);
 
-  const response = await fetchImpl(endpoint, {
-    method: "DELETE",
-    headers: {
-      Authorization: `${token.tokenType} ${token.accessToken}`.trim(),
-    },
-  });
+  const { response, attempts } = await sendGoogleRequest(
+    fetchImpl,
+    endpoint,
+    { method: "DELETE" },
+    { calendarId },
+  );
 
   if (response.status === 404 || response.status === 410) {
-    return { status: "not_found" };
+    // After a retry, a missing event is most likely the one an earlier attempt removed.
+    return attempts > 1 ? { status: "deleted" } : { status: "not_found" };
   }
 
   if (response.status === 204 || response.status === 200) {
@@ -385,7 +850,6 @@ export async function updateCalendarEvent(options: UpdateCalendarEventOptions):
     fetchImpl = fetch,
   } = options;
 
-  const token = await getGoogleAccessToken(fetchImpl);
   const endpoint = new URL(
     `${GOOGLE_EVENTS_BASE}/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
   );
@@ -421,14 +885,18 @@ export async function updateCalendarEvent(options: UpdateCalendarEventOptions):
     }));
   }
 
-  const response = await fetchImpl(endpoint, {
-    method: "PATCH",
-    headers: {
-      Authorization: `${token.tokenType} ${token.accessToken}`.trim(),
-      "Content-Type": "application/json",
+  const { response } = await sendGoogleRequest(
+    fetchImpl,
+    endpoint,
+    {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
     },
-    body: JSON.stringify(body),
-  });
+    { calendarId },
+  );
 
   const payload = await response.json().catch(() => ({}));
 
@@ -443,6 +911,103 @@ export async function updateCalendarEvent(options: UpdateCalendarEventOptions):
   return mapGoogleEventPayload(payload, startIso, endIso);
 }
 
+export async function listCalendarEvents(options: ListCalendarEventsOptions): Promise<GoogleCalendarEvent[]> {
+  const {
+    calendarId,
+    timeMin,
+    timeMax,
+    privateExtendedProperty = [],
+    singleEvents = true,
+    showDeleted = false,
+    maxResults,
+    fetchImpl = fetch,
+  } = options;
+
+  const params = new URLSearchParams({
+    timeMin: toUtcISOString(timeMin),
+    timeMax: toUtcISOString(timeMax),
+    singleEvents: String(singleEvents),
+    showDeleted: String(showDeleted),
+  });
+  if (singleEvents) {
+    params.set("orderBy", "startTime");
+  }
+  if (maxResults !== undefined) {
+    params.set("maxResults", String(maxResults));
+  }
+  for (const property of privateExtendedProperty) {
+    params.append("privateExtendedProperty", property);
+  }
+
+  const { events } = await fetchCalendarEventPages(calendarId, params, fetchImpl);
+  return events;
+}
+
+export async function syncCalendarEvents(options: SyncCalendarEventsOptions): Promise<SyncCalendarEventsResult> {
+  const { calendarId, syncToken, timeMin, timeMax, singleEvents = true, maxResults, fetchImpl = fetch } = options;
+
+  const params = new URLSearchParams({ singleEvents: String(singleEvents) });
+  if (syncToken) {
+    params.set("syncToken", syncToken);
+  } else {
+    if (timeMin !== undefined) {
+      params.set("timeMin", toUtcISOString(timeMin));
+    }
+    if (timeMax !== undefined) {
+      params.set("timeMax", toUtcISOString(timeMax));
+    }
+  }
+  if (maxResults !== undefined) {
+    params.set("maxResults", String(maxResults));
+  }
+
+  return fetchCalendarEventPages(calendarId, params, fetchImpl);
+}
+
+async function fetchCalendarEventPages(
+  calendarId: string,
+  params: URLSearchParams,
+  fetchImpl: FetchLike,
+): Promise<SyncCalendarEventsResult> {
+  const events: GoogleCalendarEvent[] = [];
+  let pageToken: string | undefined;
+  let nextSyncToken: string | undefined;
+
+  do {
+    const endpoint = new URL(`${GOOGLE_EVENTS_BASE}/${encodeURIComponent(calendarId)}/events`);
+    endpoint.search = params.toString();
+    if (pageToken) {
+      endpoint.searchParams.set("pageToken", pageToken);
+    }
+
+    const { response } = await sendGoogleRequest(fetchImpl, endpoint, { method: "GET" }, { calendarId });
+
+    const payload = await response.json().catch(() => ({}));
+
+    if (response.status === 410 && params.has("syncToken")) {
+      throw new GoogleSyncTokenExpiredError(payload);
+    }
+
+    if (!response.ok) {
+      const message =
+        typeof payload.error?.message === "string"
+          ? payload.error.message
+          : "Failed to list Google Calendar events.";
+      throw new GoogleApiError(message, response.status, payload);
+    }
+
+    const items = Array.isArray(payload.items) ? (payload.items as unknown[]) : [];
+    for (const item of items) {
+      events.push(mapGoogleEventPayload(item, "", ""));
+    }
+
+    pageToken = typeof payload.nextPageToken === "string" ? payload.nextPageToken : undefined;
+    nextSyncToken = typeof payload.nextSyncToken === "string" ? payload.nextSyncToken : nextSyncToken;
+  } while (pageToken);
+
+  return { events, nextSyncToken };
+}
+
 function mapGoogleEventPayload(payload: unknown, fallbackStartIso: string, fallbackEndIso: string): GoogleCalendarEvent {
   const eventPayload = (payload ?? {}) as Record<string, unknown>;
   const conferenceData = eventPayload.conferenceData as
@@ -458,8 +1023,11 @@ function mapGoogleEventPayload(payload: unknown, fallbackStartIso: string, fallb
           (entry) => entry?.entryPointType === "video" && typeof entry?.uri === "string",
         )?.uri;
 
-  const startObj = (eventPayload.start as { dateTime?: string }) ?? {};
-  const endObj = (eventPayload.end as { dateTime?: string }) ?? {};
+  const startObj = (eventPayload.start as { dateTime?: string; date?: string }) ?? {};
+  const endObj = (eventPayload.end as { dateTime?: string; date?: string }) ?? {};
+  const extendedProperties = eventPayload.extendedProperties as
+    | { private?: Record<string, string> }
+    | undefined;
 
   return {
     id: typeof eventPayload.id === "string" ? (eventPayload.id as string) : "",
@@ -467,16 +1035,53 @@ function mapGoogleEventPayload(payload: unknown, fallbackStartIso: string, fallb
     hangoutLink,
     start: typeof startObj.dateTime === "string" ? startObj.dateTime : fallbackStartIso,
     end: typeof endObj.dateTime === "string" ? endObj.dateTime : fallbackEndIso,
+    startDate: typeof startObj.date === "string" ? startObj.date : undefined,
+    endDate: typeof endObj.date === "string" ? endObj.date : undefined,
+    status: typeof eventPayload.status === "string" ? eventPayload.status : undefined,
+    transparency: typeof eventPayload.transparency === "string" ? eventPayload.transparency : undefined,
+    eventType: typeof eventPayload.eventType === "string" ? eventPayload.eventType : undefined,
     attendees: Array.isArray(eventPayload.attendees)
-      ? (eventPayload.attendees as { email?: string; responseStatus?: string }[])
+      ? (eventPayload.attendees as { email?: string; responseStatus?: string; self?: boolean }[])
       : undefined,
+    privateProperties: extendedProperties?.private,
+    created: typeof eventPayload.created === "string" ? (eventPayload.created as string) : undefined,
     raw: eventPayload,
   };
 }
 
-export async function getGoogleHealth(fetchImpl: FetchLike = fetch): Promise<GoogleHealthStatus> {
+export function createGoogleCalendarProvider(fetchImpl?: FetchLike): CalendarProvider {
+  return {
+    id: "google",
+    getFreeBusy: ({ timeMin, timeMax, calendarIds }) => getGoogleFreeBusy({ timeMin, timeMax, calendarIds, fetchImpl }),
+    createEvent: (input) => createCalendarEvent({ ...input, fetchImpl }),
+    updateEvent: (input) => updateCalendarEvent({ ...input, fetchImpl }),
+    deleteEvent: (input) => deleteCalendarEvent({ ...input, fetchImpl }),
+    getEvent: (input) => getCalendarEvent({ ...input, fetchImpl }),
+    listEvents: ({ privateProperties = {}, ...input }) =>
+      listCalendarEvents({
+        ...input,
+        privateExtendedProperty: Object.entries(privateProperties).map(([key, value]) => `${key}=${value}`),
+        fetchImpl,
+      }),
+    assertWritable: (calendarId) => assertCalendarWritable(calendarId, fetchImpl),
+  };
+}
+
+export type GoogleHealthOptions = {
+  // Every calendar bookings can be written to; defaults to the env-configured write calendar.
+  getWriteCalendarIds?: () => string[];
+};
+
+export async function getGoogleHealth(
+  fetchImpl: FetchLike = fetch,
+  { getWriteCalendarIds = () => [getGoogleWriteCalendarId()] }: GoogleHealthOptions = {},
+): Promise<GoogleHealthStatus> {
+  let strategy: GoogleAuthStrategy | undefined;
+
   try {
-    const calendars = getGoogleCalendarIds();
+    strategy = getGoogleAuthStrategy();
+    const calendars = getGoogleCheckCalendarIds();
+    const writeCalendarIds = [...new Set(getWriteCalendarIds())];
     const now = new Date();
     const horizon = new Date(now.getTime() + 60 * 60 * 1000);
 
@@ -486,18 +1091,27 @@ export async function getGoogleHealth(fetchImpl: FetchLike = fetch): Promise<Goo
       calendarIds: calendars,
       fetchImpl,
     });
+    for (const writeCalendarId of writeCalendarIds) {
+      await assertCalendarWritable(writeCalendarId, fetchImpl);
+    }
 
     return {
       status: "ok",
-      detail: `Google Calendar reachable (${calendars.join(", ")})`,
+      detail: `Google Calendar reachable (${calendars.join(", ")}; bookings go to ${writeCalendarIds.join(", ")}) using ${strategy} auth`,
       source: "live",
+      strategy,
     };
   } catch (error) {
-    if (error instanceof GoogleAuthConfigError || error instanceof GoogleCalendarConfigError) {
+    if (
+      error instanceof GoogleAuthConfigError ||
+      error instanceof GoogleCalendarConfigError ||
+      error instanceof GoogleCredentialStoreError
+    ) {
       return {
         status: "degraded",
         detail: error.message,
         source: "live",
+        strategy,
       };
     }
 
@@ -506,6 +1120,7 @@ export async function getGoogleHealth(fetchImpl: FetchLike = fetch): Promise<Goo
         status: "error",
         detail: error.message,
         source: "live",
+        strategy,
       };
     }
 
@@ -514,6 +1129,7 @@ export async function getGoogleHealth(fetchImpl: FetchLike = fetch): Promise<Goo
         status: "degraded",
         detail: error.message,
         source: "live",
+        strategy,
       };
     }
 
@@ -521,12 +1137,7 @@ export async function getGoogleHealth(fetchImpl: FetchLike = fetch): Promise<Goo
       status: "error",
       detail: "Unexpected error while checking Google Calendar health.",
       source: "live",
+      strategy,
     };
   }
 }
-
-export async function listCalendarEventsMock() {
-  // TODO: Replace with Google Calendar Events list when API integration lands.
-  return [] as const;
-}
-
@@ -0,0 +1,7 @@
+import "server-only";
+
+import appSettings from "@/config/app.settings.json" assert { type: "json" };
+
+const ENV_HOST_TIMEZONE = process.env.TZ_DEFAULT_HOST ?? process.env.HOST_TIMEZONE;
+
+export const HOST_TIMEZONE = ENV_HOST_TIMEZONE ?? appSettings.hostTimezone ?? "America/Los_Angeles";
@@ -0,0 +1,130 @@
+import "server-only";
+
+import hostsConfig from "@/config/hosts.json" assert { type: "json" };
+import type { CalendarAttendee, CalendarProviderConfig } from "@/lib/calendar-provider";
+import { getGoogleCheckCalendarIds, getGoogleWriteCalendarId } from "@/lib/google";
+import type { MeetingType } from "@/lib/meeting-types";
+
+export const DEFAULT_HOST_ID = "default";
+
+export type Host = {
+  id: string;
+  name: string;
+  email?: string;
+  calendarId: string;
+  busyCalendarIds?: string[];
+  weight?: number;
+  provider?: string | CalendarProviderConfig;
+};
+
+export class HostConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HostConfigError";
+  }
+}
+
+export type RoundRobinStrategy = "least-recently-booked" | "weighted";
+
+export type HostSelectionContext = {
+  lastBookedAt?: Record<string, number>;
+  random?: () => number;
+};
+
+export function getHosts(): Host[] {
+  return hostsConfig as Host[];
+}
+
+export function getHostById(id: string): Host | undefined {
+  if (id === DEFAULT_HOST_ID) {
+    return getDefaultHost();
+  }
+
+  return getHosts().find((host) => host.id === id);
+}
+
+export function getDefaultHost(): Host {
+  return {
+    id: DEFAULT_HOST_ID,
+    name: "Host",
+    calendarId: getGoogleWriteCalendarId(),
+    busyCalendarIds: getGoogleCheckCalendarIds(),
+  };
+}
+
+// Checked for every meeting type when the config is loaded, so a bad pool fails at startup.
+export function assertMeetingTypeHostConfig(meetingType: MeetingType): void {
+  const hostCount = meetingType.hostIds?.length ?? 0;
+  if (meetingType.destinationCalendarId && hostCount > 1) {
+    throw new HostConfigError(
+      `Meeting type ${meetingType.id} sets destinationCalendarId but has ${hostCount} hosts; each host books into its own calendarId.`,
+    );
+  }
+}
+
+export function getMeetingTypeHosts(meetingType: MeetingType): Host[] {
+  assertMeetingTypeHostConfig(meetingType);
+
+  const hosts =
+    !meetingType.hostIds || meetingType.hostIds.length === 0
+      ? [getDefaultHost()]
+      : meetingType.hostIds
+          .map((id) => getHosts().find((host) => host.id === id))
+          .filter((host): host is Host => Boolean(host));
+
+  if (!meetingType.destinationCalendarId) {
+    return hosts;
+  }
+
+  return hosts.map((host) => ({ ...host, calendarId: meetingType.destinationCalendarId as string }));
+}
+
+// Bookings land on the host's calendarId, so it is always checked alongside the listed busy calendars.
+export function getHostBusyCalendarIds(host: Host): string[] {
+  return [...new Set([host.calendarId, ...(host.busyCalendarIds ?? [])])];
+}
+
+export function getHostAttendees(meetingType: MeetingType): CalendarAttendee[] {
+  if (meetingType.assignment !== "collective") {
+    return [];
+  }
+
+  return getMeetingTypeHosts(meetingType).map((host) => ({
+    email: host.email ?? host.calendarId,
+    displayName: host.name,
+  }));
+}
+
+export function selectRoundRobinHost(
+  strategy: RoundRobinStrategy,
+  candidates: Host[],
+  context: HostSelectionContext = {},
+): Host | undefined {
+  if (candidates.length <= 1) {
+    return candidates[0];
+  }
+
+  if (strategy === "weighted") {
+    const random = context.random ?? Math.random;
+    const weights = candidates.map((host) => Math.max(0, host.weight ?? 1));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    if (totalWeight <= 0) {
+      return candidates[0];
+    }
+
+    let threshold = random() * totalWeight;
+    for (let index = 0; index < candidates.length; index += 1) {
+      threshold -= weights[index];
+      if (threshold < 0) {
+        return candidates[index];
+      }
+    }
+
+    return candidates[candidates.length - 1];
+  }
+
+  const lastBookedAt = context.lastBookedAt ?? {};
+
+  return [...candidates].sort((a, b) => (lastBookedAt[a.id] ?? 0) - (lastBookedAt[b.id] ?? 0))[0];
+}
@@ -0,0 +1,529 @@
+import "server-only";
+
+import { readFile } from "node:fs/promises";
+
+import { fromZonedTime } from "date-fns-tz";
+
+import type { BusySource, BusyTimeRange } from "@/lib/busy-sources";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RECURRENCE_PERIODS = 50000;
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+// Outlook and Exchange feeds name zones the Windows way; VTIMEZONE definitions are not read.
+const WINDOWS_TIMEZONES: Record<string, string> = {
+  "Hawaiian Standard Time": "Pacific/Honolulu",
+  "Alaskan Standard Time": "America/Anchorage",
+  "Pacific Standard Time": "America/Los_Angeles",
+  "US Mountain Standard Time": "America/Phoenix",
+  "Mountain Standard Time": "America/Denver",
+  "Central Standard Time": "America/Chicago",
+  "Eastern Standard Time": "America/New_York",
+  "Atlantic Standard Time": "America/Halifax",
+  "E. South America Standard Time": "America/Sao_Paulo",
+  "GMT Standard Time": "Europe/London",
+  "Greenwich Standard Time": "Atlantic/Reykjavik",
+  "W. Europe Standard Time": "Europe/Berlin",
+  "Romance Standard Time": "Europe/Paris",
+  "Central Europe Standard Time": "Europe/Budapest",
+  "Central European Standard Time": "Europe/Warsaw",
+  "GTB Standard Time": "Europe/Bucharest",
+  "FLE Standard Time": "Europe/Kiev",
+  "Russian Standard Time": "Europe/Moscow",
+  "India Standard Time": "Asia/Kolkata",
+  "China Standard Time": "Asia/Shanghai",
+  "Singapore Standard Time": "Asia/Singapore",
+  "Tokyo Standard Time": "Asia/Tokyo",
+  "AUS Eastern Standard Time": "Australia/Sydney",
+  "New Zealand Standard Time": "Pacific/Auckland",
+};
+const warnedTimezones = new Set<string>();
+
+type FetchLike = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+export type IcsLocation = { path: string } | { url: string };
+
+export type IcsFetcher = (location: IcsLocation) => Promise<string>;
+
+export type IcsParseOptions = {
+  timeMin: Date;
+  timeMax: Date;
+  defaultTimezone: string;
+};
+
+export type IcsBusySourceOptions = {
+  id?: string;
+  location: IcsLocation;
+  defaultTimezone: string;
+  fetcher?: IcsFetcher;
+};
+
+export class IcsFetchError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = "IcsFetchError";
+  }
+}
+
+export type IcsProperty = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+type IcsDateValue = {
+  // Wall-clock time stored in the UTC fields of a Date, interpreted in `timezone`.
+  wall: Date;
+  timezone: string;
+  allDay: boolean;
+};
+
+type IcsEvent = {
+  uid?: string;
+  start: IcsDateValue;
+  durationMs: number;
+  rrule?: Record<string, string>;
+  recurrenceId?: IcsDateValue;
+  exdates: IcsDateValue[];
+  rdates: IcsDateValue[];
+  transparent: boolean;
+  cancelled: boolean;
+};
+
+export function createIcsFetcher(fetchImpl: FetchLike = fetch): IcsFetcher {
+  return async (location) => {
+    if ("path" in location) {
+      return readFile(location.path, "utf8");
+    }
+
+    const response = await fetchImpl(location.url, { headers: { Accept: "text/calendar" } });
+    if (!response.ok) {
+      throw new IcsFetchError(`Failed to fetch ICS feed (${response.status}).`, response.status);
+    }
+
+    return response.text();
+  };
+}
+
+export function createIcsBusySource(options: IcsBusySourceOptions): BusySource {
+  const { id = "ics", location, defaultTimezone, fetcher = createIcsFetcher() } = options;
+
+  return {
+    id,
+    getBusy: async ({ timeMin, timeMax, calendarIds }) => {
+      const ranges = parseIcsBusyTimes(await fetcher(location), { timeMin, timeMax, defaultTimezone });
+      return Object.fromEntries(calendarIds.map((calendarId) => [calendarId, ranges.map((range) => ({ ...range }))]));
+    },
+  };
+}
+
+export function parseIcsBusyTimes(text: string, options: IcsParseOptions): BusyTimeRange[] {
+  const events = parseIcsEvents(text, options.defaultTimezone);
+  const overriddenStarts = new Map<string, Set<number>>();
+
+  for (const event of events) {
+    if (event.uid && event.recurrenceId) {
+      const starts = overriddenStarts.get(event.uid) ?? new Set<number>();
+      starts.add(toInstant(event.recurrenceId).getTime());
+      overriddenStarts.set(event.uid, starts);
+    }
+  }
+
+  const ranges: BusyTimeRange[] = [];
+
+  for (const event of events) {
+    if (event.transparent || event.cancelled || event.durationMs <= 0) {
+      continue;
+    }
+
+    const excluded = new Set(event.exdates.map((exdate) => toInstant(exdate).getTime()));
+    if (!event.recurrenceId && event.uid) {
+      for (const start of overriddenStarts.get(event.uid) ?? []) {
+        excluded.add(start);
+      }
+    }
+
+    for (const wallStart of expandOccurrences(event, options.timeMax)) {
+      // Wall-clock times are never more than a day away from their instant, so skip distant ones cheaply.
+      if (wallStart.getTime() + event.durationMs < options.timeMin.getTime() - DAY_MS) {
+        continue;
+      }
+
+      const startUtc = toInstant({ ...event.start, wall: wallStart });
+      if (excluded.has(startUtc.getTime())) {
+        continue;
+      }
+
+      const endUtc = toInstant({ ...event.start, wall: new Date(wallStart.getTime() + event.durationMs) });
+      if (startUtc < options.timeMax && endUtc > options.timeMin) {
+        ranges.push({ start: startUtc.toISOString(), end: endUtc.toISOString() });
+      }
+    }
+  }
+
+  return ranges.sort((left, right) => left.start.localeCompare(right.start));
+}
+
+function parseIcsEvents(text: string, defaultTimezone: string): IcsEvent[] {
+  return parseIcsComponents(text, "VEVENT")
+    .map((properties) => buildEvent(properties, defaultTimezone))
+    .filter((event): event is IcsEvent => event !== null);
+}
+
+// Returns the properties of every `componentName` component, ignoring nested ones such as VALARM.
+export function parseIcsComponents(text: string, componentName: string): IcsProperty[][] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const components: IcsProperty[][] = [];
+  const componentStack: string[] = [];
+  let properties: IcsProperty[] = [];
+
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) {
+      continue;
+    }
+
+    if (property.name === "BEGIN") {
+      componentStack.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === componentName) {
+        properties = [];
+      }
+      continue;
+    }
+
+    if (property.name === "END") {
+      if (componentStack.pop() === componentName) {
+        components.push(properties);
+      }
+      continue;
+    }
+
+    if (componentStack[componentStack.length - 1] === componentName) {
+      properties.push(property);
+    }
+  }
+
+  return components;
+}
+
+export function parseIcsInstant(
+  value: string,
+  params: Record<string, string>,
+  defaultTimezone: string,
+): { instant: Date; allDay: boolean } | null {
+  const parsed = parseDateValue(value, params, defaultTimezone);
+  return parsed ? { instant: toInstant(parsed), allDay: parsed.allDay } : null;
+}
+
+// Milliseconds in an RFC 5545 DURATION value; malformed values count as zero.
+export function parseIcsDuration(value: string): number {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    return 0;
+  }
+
+  const [, sign, weeks = "0", days = "0", hours = "0", minutes = "0", seconds = "0"] = match;
+  const totalMs =
+    ((Number(weeks) * 7 + Number(days)) * 24 * 60 * 60 + Number(hours) * 60 * 60 + Number(minutes) * 60 + Number(seconds)) *
+    1000;
+
+  return sign === "-" ? -totalMs : totalMs;
+}
+
+export function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, character: string) => (character.toLowerCase() === "n" ? "\n" : character));
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let separatorIndex = -1;
+
+  for (let index = 0; index < line.length; index += 1) {
+    const character = line[index];
+    if (character === '"') {
+      inQuotes = !inQuotes;
+    } else if (character === ":" && !inQuotes) {
+      separatorIndex = index;
+      break;
+    }
+  }
+
+  if (separatorIndex <= 0) {
+    return null;
+  }
+
+  const [name, ...rawParams] = line.slice(0, separatorIndex).split(";");
+  const params: Record<string, string> = {};
+
+  for (const rawParam of rawParams) {
+    const [key, ...valueParts] = rawParam.split("=");
+    params[key.toUpperCase()] = valueParts.join("=").replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(separatorIndex + 1).trim() };
+}
+
+function buildEvent(properties: IcsProperty[], defaultTimezone: string): IcsEvent | null {
+  const find = (name: string) => properties.find((property) => property.name === name);
+  const dtstart = find("DTSTART");
+  const start = dtstart ? parseDateValue(dtstart.value, dtstart.params, defaultTimezone) : null;
+
+  if (!start) {
+    return null;
+  }
+
+  const dtend = find("DTEND");
+  const end = dtend ? parseDateValue(dtend.value, dtend.params, defaultTimezone) : null;
+  const duration = find("DURATION");
+  let durationMs = start.allDay ? DAY_MS : 0;
+
+  if (end) {
+    durationMs =
+      end.timezone === start.timezone
+        ? end.wall.getTime() - start.wall.getTime()
+        : toInstant(end).getTime() - toInstant(start).getTime();
+  } else if (duration) {
+    durationMs = parseIcsDuration(duration.value);
+  }
+
+  const rrule = find("RRULE");
+  const recurrenceId = find("RECURRENCE-ID");
+  const listDates = (name: string) =>
+    properties
+      .filter((property) => property.name === name)
+      .flatMap((property) =>
+        property.value.split(",").map((value) => parseDateValue(value, property.params, start.timezone)),
+      )
+      .filter((value): value is IcsDateValue => value !== null);
+
+  return {
+    uid: find("UID")?.value,
+    start,
+    durationMs,
+    rrule: rrule ? parseRule(rrule.value) : undefined,
+    recurrenceId: recurrenceId
+      ? parseDateValue(recurrenceId.value, recurrenceId.params, start.timezone) ?? undefined
+      : undefined,
+    exdates: listDates("EXDATE"),
+    rdates: listDates("RDATE"),
+    transparent: find("TRANSP")?.value.toUpperCase() === "TRANSPARENT",
+    cancelled: find("STATUS")?.value.toUpperCase() === "CANCELLED",
+  };
+}
+
+function parseDateValue(value: string, params: Record<string, string>, defaultTimezone: string): IcsDateValue | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours = "00", minutes = "00", seconds = "00", utc] = match;
+  const wall = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)));
+  const allDay = params.VALUE === "DATE" || match[4] === undefined;
+  const timezone = utc ? "UTC" : resolveTimezone(params.TZID, defaultTimezone);
+
+  return { wall, timezone, allDay };
+}
+
+function parseRule(value: string): Record<string, string> {
+  return Object.fromEntries(
+    value
+      .split(";")
+      .map((part) => part.split("="))
+      .filter((parts) => parts.length === 2)
+      .map(([key, ruleValue]) => [key.toUpperCase(), ruleValue.toUpperCase()]),
+  );
+}
+
+function resolveTimezone(tzid: string | undefined, defaultTimezone: string): string {
+  if (!tzid) {
+    return defaultTimezone;
+  }
+
+  if (isKnownTimezone(tzid)) {
+    return tzid;
+  }
+
+  if (WINDOWS_TIMEZONES[tzid]) {
+    return WINDOWS_TIMEZONES[tzid];
+  }
+
+  if (!warnedTimezones.has(tzid)) {
+    warnedTimezones.add(tzid);
+    console.warn(`[ics] Unknown TZID "${tzid}"; reading its times in ${defaultTimezone}.`);
+  }
+
+  return defaultTimezone;
+}
+
+function isKnownTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toInstant(value: IcsDateValue): Date {
+  if (value.timezone === "UTC") {
+    return new Date(value.wall.getTime());
+  }
+
+  return fromZonedTime(value.wall.toISOString().slice(0, 19), value.timezone);
+}
+
+function expandOccurrences(event: IcsEvent, timeMax: Date): Date[] {
+  const starts = new Map<number, Date>([[event.start.wall.getTime(), event.start.wall]]);
+
+  for (const rdate of event.rdates) {
+    const wall = new Date(rdate.wall.getTime());
+    if (rdate.allDay && !event.start.allDay) {
+      wall.setUTCHours(event.start.wall.getUTCHours(), event.start.wall.getUTCMinutes(), event.start.wall.getUTCSeconds());
+    }
+    starts.set(wall.getTime(), wall);
+  }
+
+  if (event.rrule && !event.recurrenceId) {
+    for (const wall of expandRule(event.start, event.rrule, timeMax)) {
+      starts.set(wall.getTime(), wall);
+    }
+  }
+
+  return [...starts.values()].sort((left, right) => left.getTime() - right.getTime());
+}
+
+function expandRule(start: IcsDateValue, rule: Record<string, string>, timeMax: Date): Date[] {
+  const frequency = rule.FREQ;
+  const interval = Math.max(1, Number(rule.INTERVAL) || 1);
+  const count = rule.COUNT ? Number(rule.COUNT) : undefined;
+  const untilValue = rule.UNTIL ? parseDateValue(rule.UNTIL, {}, start.timezone) : null;
+  const until = untilValue ? toInstant(untilValue) : undefined;
+  const byDay = rule.BYDAY ? rule.BYDAY.split(",") : undefined;
+  const byMonthDay = rule.BYMONTHDAY ? rule.BYMONTHDAY.split(",").map(Number) : undefined;
+  const byMonth = rule.BYMONTH ? rule.BYMONTH.split(",").map(Number) : undefined;
+  const weekStart = Math.max(0, WEEKDAY_CODES.indexOf(rule.WKST ?? "MO"));
+
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(frequency)) {
+    return [];
+  }
+
+  const occurrences: Date[] = [];
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_RECURRENCE_PERIODS; period += 1) {
+    const candidates = getPeriodCandidates(start.wall, frequency, period * interval, {
+      byDay,
+      byMonthDay,
+      byMonth,
+      weekStart,
+    });
+
+    for (const candidate of candidates) {
+      if (candidate < start.wall) {
+        continue;
+      }
+
+      const isPast = (limit: Date) =>
+        candidate.getTime() > limit.getTime() + DAY_MS ||
+        (candidate.getTime() > limit.getTime() - DAY_MS && toInstant({ ...start, wall: candidate }) >= limit);
+      if ((until && isPast(new Date(until.getTime() + 1))) || isPast(timeMax) || (count !== undefined && emitted >= count)) {
+        return occurrences;
+      }
+
+      occurrences.push(candidate);
+      emitted += 1;
+    }
+  }
+
+  return occurrences;
+}
+
+type RuleFilters = {
+  byDay?: string[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  weekStart: number;
+};
+
+function getPeriodCandidates(startWall: Date, frequency: string, offset: number, filters: RuleFilters): Date[] {
+  const withStartTime = (year: number, monthIndex: number, day: number) =>
+    new Date(
+      Date.UTC(year, monthIndex, day, startWall.getUTCHours(), startWall.getUTCMinutes(), startWall.getUTCSeconds()),
+    );
+  const matchesMonth = (date: Date) => !filters.byMonth || filters.byMonth.includes(date.getUTCMonth() + 1);
+
+  if (frequency === "DAILY") {
+    const day = new Date(startWall.getTime() + offset * DAY_MS);
+    const matchesDay = !filters.byDay || filters.byDay.some((code) => WEEKDAY_CODES.indexOf(code) === day.getUTCDay());
+    const matchesMonthDay = !filters.byMonthDay || filters.byMonthDay.includes(day.getUTCDate());
+    return matchesDay && matchesMonthDay && matchesMonth(day) ? [day] : [];
+  }
+
+  if (frequency === "WEEKLY") {
+    const daysFromWeekStart = (startWall.getUTCDay() - filters.weekStart + 7) % 7;
+    const weekStartWall = new Date(startWall.getTime() + (offset * 7 - daysFromWeekStart) * DAY_MS);
+    const weekdays = filters.byDay
+      ? filters.byDay.map((code) => WEEKDAY_CODES.indexOf(code.slice(-2))).filter((weekday) => weekday >= 0)
+      : [startWall.getUTCDay()];
+
+    return weekdays
+      .map((weekday) => new Date(weekStartWall.getTime() + ((weekday - filters.weekStart + 7) % 7) * DAY_MS))
+      .filter(matchesMonth)
+      .sort((left, right) => left.getTime() - right.getTime());
+  }
+
+  const monthOffsets =
+    frequency === "MONTHLY"
+      ? [{ year: startWall.getUTCFullYear(), monthIndex: startWall.getUTCMonth() + offset }]
+      : (filters.byMonth ?? [startWall.getUTCMonth() + 1]).map((month) => ({
+          year: startWall.getUTCFullYear() + offset,
+          monthIndex: month - 1,
+        }));
+
+  return monthOffsets
+    .flatMap(({ year, monthIndex }) => {
+      const monthStart = new Date(Date.UTC(year, monthIndex, 1));
+      return getMonthDays(monthStart, startWall, filters).map((day) =>
+        withStartTime(monthStart.getUTCFullYear(), monthStart.getUTCMonth(), day),
+      );
+    })
+    .filter(matchesMonth)
+    .sort((left, right) => left.getTime() - right.getTime());
+}
+
+function getMonthDays(monthStart: Date, startWall: Date, filters: RuleFilters): number[] {
+  const daysInMonth = new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 0)).getUTCDate();
+
+  if (filters.byMonthDay) {
+    return filters.byMonthDay
+      .map((day) => (day < 0 ? daysInMonth + day + 1 : day))
+      .filter((day) => day >= 1 && day <= daysInMonth);
+  }
+
+  if (filters.byDay) {
+    return filters.byDay.flatMap((code) => {
+      const weekday = WEEKDAY_CODES.indexOf(code.slice(-2));
+      if (weekday < 0) {
+        return [];
+      }
+
+      const matchingDays: number[] = [];
+      for (let day = 1; day <= daysInMonth; day += 1) {
+        if (new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth(), day)).getUTCDay() === weekday) {
+          matchingDays.push(day);
+        }
+      }
+
+      const ordinal = Number(code.slice(0, -2));
+      if (!ordinal) {
+        return matchingDays;
+      }
+
+      const day = ordinal > 0 ? matchingDays[ordinal - 1] : matchingDays[matchingDays.length + ordinal];
+      return day === undefined ? [] : [day];
+    });
+  }
+
+  const day = startWall.getUTCDate();
+  return day <= daysInMonth ? [day] : [];
+}
@@ -0,0 +1,45 @@
+import type { RoundRobinStrategy } from "@/lib/hosts";
+
+// Shared with the booking UI, so this module must not import server-only code.
+
+export const GUEST_TIMEZONE_OPTIONS = [
+  { label: "Eastern Time (ET)", value: "America/New_York" },
+  { label: "Central Time (CT)", value: "America/Chicago" },
+  { label: "Mountain Time (MT)", value: "America/Denver" },
+  { label: "Pacific Time (PT)", value: "America/Los_Angeles" },
+];
+
+export type MeetingType = {
+  id: string;
+  title: string;
+  description?: string;
+  durationMinutes: number;
+  durationOptions?: number[];
+  bufferBeforeMinutes?: number;
+  bufferAfterMinutes?: number;
+  slotIntervalMinutes?: number;
+  maxPerDay?: number;
+  maxPerWeek?: number;
+  scheduleId?: string;
+  assignment?: "single" | "round-robin" | "collective";
+  hostIds?: string[];
+  destinationCalendarId?: string;
+  roundRobinStrategy?: RoundRobinStrategy;
+  isActive: boolean;
+};
+
+export type UtcSlot = {
+  start: string;
+  end: string;
+};
+
+export type AvailabilityByDate = Record<string, UtcSlot[]>;
+
+export function getDurationOptions(meetingType: MeetingType): number[] {
+  const options = new Set([meetingType.durationMinutes, ...(meetingType.durationOptions ?? [])]);
+  return [...options].filter((minutes) => Number.isInteger(minutes) && minutes > 0).sort((a, b) => a - b);
+}
+
+export function isAllowedDuration(meetingType: MeetingType, durationMinutes: number): boolean {
+  return getDurationOptions(meetingType).includes(durationMinutes);
+}
@@ -0,0 +1,695 @@
+import "server-only";
+
+import { randomUUID } from "node:crypto";
+
+import {
+  CalendarProviderConfigError,
+  CalendarProviderError,
+  type CalendarAttendee,
+  type CalendarEvent,
+  type CalendarProvider,
+  type CalendarSendUpdates,
+  type DeleteCalendarEventResult,
+} from "@/lib/calendar-provider";
+import { sendWithRetry, type RetriedResponse } from "@/lib/retry";
+
+const MICROSOFT_LOGIN_BASE = "https://login.microsoftonline.com";
+const MICROSOFT_GRAPH_BASE = "https://graph.microsoft.com/v1.0";
+const CLIENT_CREDENTIALS_SCOPE = "https://graph.microsoft.com/.default";
+const REFRESH_TOKEN_SCOPE = "offline_access https://graph.microsoft.com/Calendars.ReadWrite";
+// Scheduler tags live in one JSON-valued extended property. Graph can only match that value as a whole,
+// so listings expand it onto every event and match individual tags client-side.
+const PRIVATE_PROPERTIES_ID = "String {6f1d8c2e-3b4a-4f5e-9a7b-2c8d1e0f4a6b} Name schedulerProperties";
+const BUSY_SCHEDULE_STATUSES = new Set(["busy", "tentative", "oof"]);
+const ATTENDEE_RESPONSES: Record<string, string> = {
+  accepted: "accepted",
+  organizer: "accepted",
+  declined: "declined",
+  tentativelyAccepted: "tentative",
+  notResponded: "needsAction",
+  none: "needsAction",
+};
+
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+type FetchLike = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+export type MicrosoftAuthStrategy = "client-credentials" | "refresh-token";
+
+export type MicrosoftHealthStatus = {
+  status: "ok" | "degraded" | "error";
+  detail: string;
+  source: "mock" | "live";
+  strategy?: MicrosoftAuthStrategy;
+};
+
+export type MicrosoftAuthConfig = {
+  tenantId: string;
+  clientId: string;
+  clientSecret: string;
+  refreshToken?: string;
+};
+
+export type MicrosoftAccessToken = {
+  accessToken: string;
+  expiresAt: number;
+  tokenType: string;
+};
+
+export type MicrosoftFreeBusyOptions = {
+  timeMin: Date | string;
+  timeMax: Date | string;
+  calendarIds?: string[];
+  fetchImpl?: FetchLike;
+};
+
+export type MicrosoftFreeBusyResult = Record<string, { start: string; end: string }[]>;
+
+export type CreateMicrosoftCalendarEventOptions = {
+  calendarId: string;
+  summary: string;
+  description?: string;
+  start: Date | string;
+  end: Date | string;
+  attendees?: CalendarAttendee[];
+  privateProperties?: Record<string, string>;
+  sendUpdates?: CalendarSendUpdates;
+  teamsMeeting?: boolean;
+  fetchImpl?: FetchLike;
+};
+
+export type UpdateMicrosoftCalendarEventOptions = {
+  calendarId: string;
+  eventId: string;
+  start: Date | string;
+  end: Date | string;
+  summary?: string;
+  description?: string;
+  attendees?: CalendarAttendee[];
+  fetchImpl?: FetchLike;
+};
+
+export type MicrosoftCalendarEventReference = {
+  calendarId: string;
+  eventId: string;
+  fetchImpl?: FetchLike;
+};
+
+export type ListMicrosoftCalendarEventsOptions = {
+  calendarId: string;
+  timeMin: Date | string;
+  timeMax: Date | string;
+  privateProperties?: Record<string, string>;
+  fetchImpl?: FetchLike;
+};
+
+export type MicrosoftCalendarProviderOptions = {
+  teamsMeeting?: boolean;
+  fetchImpl?: FetchLike;
+};
+
+export class MicrosoftAuthConfigError extends Error {
+  constructor(message: string, public readonly missingEnv: string[]) {
+    super(message);
+    this.name = "MicrosoftAuthConfigError";
+  }
+}
+
+export class MicrosoftAuthError extends Error {
+  constructor(message: string, public readonly status: number, public readonly responseBody?: unknown) {
+    super(message);
+    this.name = "MicrosoftAuthError";
+  }
+}
+
+export class MicrosoftCalendarConfigError extends CalendarProviderConfigError {
+  constructor(message: string) {
+    super(message);
+    this.name = "MicrosoftCalendarConfigError";
+  }
+}
+
+export class MicrosoftGraphError extends CalendarProviderError {
+  constructor(message: string, status: number, responseBody?: unknown) {
+    super(message, status, responseBody);
+    this.name = "MicrosoftGraphError";
+  }
+}
+
+const writableCalendarIds = new Set<string>();
+const cachedAccessTokens = new Map<string, MicrosoftAccessToken>();
+const pendingTokenRequests = new Map<string, Promise<MicrosoftAccessToken>>();
+// Microsoft rotates refresh tokens on use; keep the newest one for the life of the process.
+const rotatedRefreshTokens = new Map<string, string>();
+
+export function getMicrosoftAuthStrategy(): MicrosoftAuthStrategy {
+  const value = process.env.MICROSOFT_AUTH_STRATEGY?.trim() || "client-credentials";
+  if (value !== "client-credentials" && value !== "refresh-token") {
+    throw new MicrosoftAuthConfigError(
+      `Unsupported MICROSOFT_AUTH_STRATEGY "${value}". Use "client-credentials" or "refresh-token".`,
+      [],
+    );
+  }
+
+  return value;
+}
+
+export function getMicrosoftAuthConfig(): MicrosoftAuthConfig {
+  const strategy = getMicrosoftAuthStrategy();
+  const tenantId = process.env.MICROSOFT_TENANT_ID?.trim() || (strategy === "refresh-token" ? "common" : "");
+  const clientId = process.env.MICROSOFT_CLIENT_ID;
+  const clientSecret = process.env.MICROSOFT_CLIENT_SECRET;
+  const refreshToken = process.env.MICROSOFT_REFRESH_TOKEN;
+
+  const missing: string[] = [];
+  if (!tenantId) missing.push("MICROSOFT_TENANT_ID");
+  if (!clientId) missing.push("MICROSOFT_CLIENT_ID");
+  if (!clientSecret) missing.push("MICROSOFT_CLIENT_SECRET");
+  if (strategy === "refresh-token" && !refreshToken) missing.push("MICROSOFT_REFRESH_TOKEN");
+
+  if (missing.length > 0 || !clientId || !clientSecret) {
+    throw new MicrosoftAuthConfigError(
+      `Missing required Microsoft environment variables: ${missing.join(", ")}`,
+      missing,
+    );
+  }
+
+  return { tenantId, clientId, clientSecret, refreshToken: strategy === "refresh-token" ? refreshToken : undefined };
+}
+
+// Mailbox addresses used when no host list is supplied; each must accept bookings.
+export function getMicrosoftCalendarIds(): string[] {
+  const ids = (process.env.MICROSOFT_CALENDAR_IDS ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+
+  if (ids.length === 0) {
+    throw new MicrosoftCalendarConfigError(
+      "Missing MICROSOFT_CALENDAR_IDS environment variable. Provide a mailbox address or comma-separated addresses.",
+    );
+  }
+
+  return ids;
+}
+
+export async function getMicrosoftAccessToken(fetchImpl: FetchLike = fetch): Promise<MicrosoftAccessToken> {
+  const config = getMicrosoftAuthConfig();
+  const cacheKey = `${config.tenantId}:${config.clientId}:${config.refreshToken ?? "app"}`;
+
+  const cached = cachedAccessTokens.get(cacheKey);
+  if (cached && cached.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+    return cached;
+  }
+
+  const pending = pendingTokenRequests.get(cacheKey);
+  if (pending) {
+    return pending;
+  }
+
+  const promise = requestMicrosoftToken(config, cacheKey, fetchImpl)
+    .then((token) => {
+      cachedAccessTokens.set(cacheKey, token);
+      return token;
+    })
+    .finally(() => {
+      if (pendingTokenRequests.get(cacheKey) === promise) {
+        pendingTokenRequests.delete(cacheKey);
+      }
+    });
+  pendingTokenRequests.set(cacheKey, promise);
+
+  return promise;
+}
+
+export function clearMicrosoftAccessTokenCache(): void {
+  cachedAccessTokens.clear();
+  pendingTokenRequests.clear();
+  rotatedRefreshTokens.clear();
+  writableCalendarIds.clear();
+}
+
+async function requestMicrosoftToken(
+  config: MicrosoftAuthConfig,
+  cacheKey: string,
+  fetchImpl: FetchLike,
+): Promise<MicrosoftAccessToken> {
+  const requestBody = new URLSearchParams({ client_id: config.clientId, client_secret: config.clientSecret });
+  if (config.refreshToken) {
+    requestBody.set("grant_type", "refresh_token");
+    requestBody.set("refresh_token", rotatedRefreshTokens.get(cacheKey) ?? config.refreshToken);
+    requestBody.set("scope", REFRESH_TOKEN_SCOPE);
+  } else {
+    requestBody.set("grant_type", "client_credentials");
+    requestBody.set("scope", CLIENT_CREDENTIALS_SCOPE);
+  }
+
+  const response = await fetchImpl(`${MICROSOFT_LOGIN_BASE}/${encodeURIComponent(config.tenantId)}/oauth2/v2.0/token`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: requestBody.toString(),
+  });
+
+  const payload = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const errorCode = typeof payload.error === "string" ? payload.error : "unknown_error";
+    const errorDescription =
+      typeof payload.error_description === "string"
+        ? payload.error_description
+        : "Failed to obtain a Microsoft access token.";
+
+    throw new MicrosoftAuthError(`${errorCode}: ${errorDescription}`, response.status, payload);
+  }
+
+  const accessToken = typeof payload.access_token === "string" ? payload.access_token : "";
+  if (!accessToken) {
+    throw new MicrosoftAuthError("Received empty access token from Microsoft.", response.status, payload);
+  }
+
+  if (typeof payload.refresh_token === "string") {
+    rotatedRefreshTokens.set(cacheKey, payload.refresh_token);
+  }
+
+  const expiresIn = Number(payload.expires_in);
+  return {
+    accessToken,
+    tokenType: typeof payload.token_type === "string" ? payload.token_type : "Bearer",
+    expiresAt: Date.now() + (Number.isFinite(expiresIn) ? expiresIn : 0) * 1000,
+  };
+}
+
+// Calendar IDs are mailbox addresses; "me" is the signed-in user for the refresh-token strategy.
+function getMailboxPath(calendarId: string): string {
+  return calendarId === "me" ? "me" : `users/${encodeURIComponent(calendarId)}`;
+}
+
+// Retries replay the same request after a 401 (token refresh) or a throttling/server error.
+// Event creation is safe to repeat because it carries a `transactionId`.
+async function sendGraphRequest(
+  fetchImpl: FetchLike,
+  path: string,
+  init: RequestInit = {},
+): Promise<RetriedResponse> {
+  let token = await getMicrosoftAccessToken(fetchImpl);
+  let refreshed = false;
+
+  const send = async (): Promise<Response> => {
+    const response = await fetchImpl(path.startsWith("https://") ? path : `${MICROSOFT_GRAPH_BASE}/${path}`, {
+      ...init,
+      headers: {
+        ...(init.headers as Record<string, string> | undefined),
+        Authorization: `${token.tokenType} ${token.accessToken}`.trim(),
+        Prefer: 'outlook.timezone="UTC"',
+      },
+    });
+
+    if (response.status !== 401 || refreshed) {
+      return response;
+    }
+
+    cachedAccessTokens.clear();
+    token = await getMicrosoftAccessToken(fetchImpl);
+    refreshed = true;
+    return send();
+  };
+
+  return sendWithRetry(send);
+}
+
+async function readGraphPayload(response: Response, fallbackMessage: string): Promise<Record<string, unknown>> {
+  const payload = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const message = typeof payload.error?.message === "string" ? payload.error.message : fallbackMessage;
+    throw new MicrosoftGraphError(message, response.status, payload);
+  }
+
+  return payload;
+}
+
+function toGraphDateTime(value: Date | string): { dateTime: string; timeZone: string } {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new TypeError("Invalid date provided to Microsoft Graph request.");
+  }
+
+  return { dateTime: date.toISOString().replace(/Z$/, ""), timeZone: "UTC" };
+}
+
+// With `Prefer: outlook.timezone="UTC"`, Graph returns zone-less UTC times such as "2025-01-06T17:00:00.0000000".
+function fromGraphDateTime(value: unknown): string {
+  if (!value || typeof value !== "object" || typeof (value as { dateTime?: unknown }).dateTime !== "string") {
+    return "";
+  }
+
+  const dateTime = (value as { dateTime: string }).dateTime;
+  const date = new Date(/[zZ]|[+-]\d{2}:\d{2}$/.test(dateTime) ? dateTime : `${dateTime}Z`);
+  return Number.isNaN(date.getTime()) ? "" : date.toISOString();
+}
+
+function toGraphAttendees(attendees: CalendarAttendee[]) {
+  return attendees.map((attendee) => ({
+    emailAddress: { address: attendee.email, name: attendee.displayName },
+    type: "required",
+  }));
+}
+
+export async function getMicrosoftFreeBusy(options: MicrosoftFreeBusyOptions): Promise<MicrosoftFreeBusyResult> {
+  const { timeMin, timeMax, calendarIds = getMicrosoftCalendarIds(), fetchImpl = fetch } = options;
+  if (calendarIds.length === 0) {
+    return {};
+  }
+
+  // Any mailbox the app can read may ask for the others' schedules.
+  const { response } = await sendGraphRequest(fetchImpl, `${getMailboxPath(calendarIds[0])}/calendar/getSchedule`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      schedules: calendarIds,
+      startTime: toGraphDateTime(timeMin),
+      endTime: toGraphDateTime(timeMax),
+      availabilityViewInterval: 15,
+    }),
+  });
+  const payload = await readGraphPayload(response, "Failed to fetch Microsoft calendar schedules.");
+
+  const schedules = Array.isArray(payload.value)
+    ? (payload.value as {
+        scheduleId?: string;
+        scheduleItems?: { status?: string; start?: unknown; end?: unknown }[];
+        error?: { message?: string };
+      }[])
+    : [];
+  const result: MicrosoftFreeBusyResult = {};
+
+  for (const calendarId of calendarIds) {
+    const schedule = schedules.find((entry) => entry.scheduleId?.toLowerCase() === calendarId.toLowerCase());
+    if (schedule?.error) {
+      throw new MicrosoftGraphError(
+        schedule.error.message ?? `Microsoft could not return the schedule for ${calendarId}.`,
+        502,
+        schedule,
+      );
+    }
+
+    result[calendarId] = (schedule?.scheduleItems ?? [])
+      .filter((item) => BUSY_SCHEDULE_STATUSES.has(item.status ?? "busy"))
+      .map((item) => ({ start: fromGraphDateTime(item.start), end: fromGraphDateTime(item.end) }));
+  }
+
+  return result;
+}
+
+export async function createMicrosoftCalendarEvent(options: CreateMicrosoftCalendarEventOptions): Promise<CalendarEvent> {
+  const {
+    calendarId,
+    summary,
+    description,
+    start,
+    end,
+    attendees = [],
+    privateProperties,
+    sendUpdates = "all",
+    teamsMeeting = false,
+    fetchImpl = fetch,
+  } = options;
+
+  const { response } = await sendGraphRequest(fetchImpl, `${getMailboxPath(calendarId)}/calendar/events`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      subject: summary,
+      body: { contentType: "text", content: description ?? "" },
+      start: toGraphDateTime(start),
+      end: toGraphDateTime(end),
+      // Graph invites every attendee on create; to stay quiet, leave them for a later update to add.
+      attendees: sendUpdates === "none" ? [] : toGraphAttendees(attendees),
+      transactionId: randomUUID(),
+      ...(teamsMeeting ? { isOnlineMeeting: true, onlineMeetingProvider: "teamsForBusiness" } : {}),
+      ...(privateProperties
+        ? { singleValueExtendedProperties: [{ id: PRIVATE_PROPERTIES_ID, value: JSON.stringify(privateProperties) }] }
+        : {}),
+    }),
+  });
+  const payload = await readGraphPayload(response, "Failed to create Microsoft calendar event.");
+
+  // The create response omits extended properties unless they are expanded.
+  return mapMicrosoftEventPayload({
+    ...payload,
+    singleValueExtendedProperties: privateProperties
+      ? [{ id: PRIVATE_PROPERTIES_ID, value: JSON.stringify(privateProperties) }]
+      : undefined,
+  });
+}
+
+export async function getMicrosoftCalendarEvent(options: MicrosoftCalendarEventReference): Promise<CalendarEvent> {
+  const { calendarId, eventId, fetchImpl = fetch } = options;
+
+  const params = new URLSearchParams({ $expand: getPrivatePropertiesExpand() });
+  const { response } = await sendGraphRequest(
+    fetchImpl,
+    `${getMailboxPath(calendarId)}/events/${encodeURIComponent(eventId)}?${params}`,
+  );
+
+  return mapMicrosoftEventPayload(await readGraphPayload(response, "Failed to fetch Microsoft calendar event."));
+}
+
+export async function updateMicrosoftCalendarEvent(options: UpdateMicrosoftCalendarEventOptions): Promise<CalendarEvent> {
+  const { calendarId, eventId, start, end, summary, description, attendees, fetchImpl = fetch } = options;
+
+  const body: Record<string, unknown> = {
+    start: toGraphDateTime(start),
+    end: toGraphDateTime(end),
+  };
+
+  if (typeof summary === "string") {
+    body.subject = summary;
+  }
+
+  if (typeof description === "string") {
+    body.body = { contentType: "text", content: description };
+  }
+
+  if (Array.isArray(attendees) && attendees.length > 0) {
+    body.attendees = toGraphAttendees(attendees);
+  }
+
+  const { response } = await sendGraphRequest(fetchImpl, `${getMailboxPath(calendarId)}/events/${encodeURIComponent(eventId)}`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  return mapMicrosoftEventPayload(await readGraphPayload(response, "Failed to update Microsoft calendar event."));
+}
+
+// Deleting a meeting from the organizer's calendar also sends attendees a cancellation.
+export async function deleteMicrosoftCalendarEvent(
+  options: MicrosoftCalendarEventReference,
+): Promise<DeleteCalendarEventResult> {
+  const { calendarId, eventId, fetchImpl = fetch } = options;
+
+  const { response, attempts } = await sendGraphRequest(
+    fetchImpl,
+    `${getMailboxPath(calendarId)}/events/${encodeURIComponent(eventId)}`,
+    { method: "DELETE" },
+  );
+
+  if (response.status === 404) {
+    // After a retry, a missing event is most likely the one an earlier attempt removed.
+    return attempts > 1 ? { status: "deleted" } : { status: "not_found" };
+  }
+
+  if (response.status !== 204 && response.status !== 200) {
+    await readGraphPayload(response, "Failed to delete Microsoft calendar event.");
+  }
+
+  return { status: "deleted" };
+}
+
+export async function listMicrosoftCalendarEvents(options: ListMicrosoftCalendarEventsOptions): Promise<CalendarEvent[]> {
+  const { calendarId, timeMin, timeMax, privateProperties = {}, fetchImpl = fetch } = options;
+
+  const params = new URLSearchParams({
+    startDateTime: toGraphDateTime(timeMin).dateTime,
+    endDateTime: toGraphDateTime(timeMax).dateTime,
+    $expand: getPrivatePropertiesExpand(),
+    $orderby: "start/dateTime",
+    $top: "250",
+  });
+  const events: CalendarEvent[] = [];
+  let nextLink: string | undefined = `${getMailboxPath(calendarId)}/calendar/calendarView?${params}`;
+
+  while (nextLink) {
+    const { response } = await sendGraphRequest(fetchImpl, nextLink);
+    const payload = await readGraphPayload(response, "Failed to list Microsoft calendar events.");
+
+    for (const item of Array.isArray(payload.value) ? (payload.value as Record<string, unknown>[]) : []) {
+      events.push(mapMicrosoftEventPayload(item));
+    }
+
+    nextLink = typeof payload["@odata.nextLink"] === "string" ? payload["@odata.nextLink"] : undefined;
+  }
+
+  return events.filter((event) =>
+    Object.entries(privateProperties).every(([key, value]) => event.privateProperties?.[key] === value),
+  );
+}
+
+export async function assertMicrosoftCalendarWritable(calendarId: string, fetchImpl: FetchLike = fetch): Promise<void> {
+  if (writableCalendarIds.has(calendarId)) {
+    return;
+  }
+
+  const { response } = await sendGraphRequest(fetchImpl, `${getMailboxPath(calendarId)}/calendar?$select=canEdit`);
+  if (response.status === 404) {
+    throw new MicrosoftCalendarConfigError(`Microsoft calendar "${calendarId}" was not found.`);
+  }
+
+  const payload = await readGraphPayload(response, "Failed to fetch Microsoft calendar permissions.");
+  if (payload.canEdit !== true) {
+    throw new MicrosoftCalendarConfigError(
+      `Bookings cannot be written to Microsoft calendar "${calendarId}". Grant the app edit access to the mailbox calendar.`,
+    );
+  }
+
+  writableCalendarIds.add(calendarId);
+}
+
+function getPrivatePropertiesExpand(): string {
+  return `singleValueExtendedProperties($filter=id eq '${PRIVATE_PROPERTIES_ID}')`;
+}
+
+function mapMicrosoftEventPayload(payload: Record<string, unknown>): CalendarEvent {
+  const isAllDay = payload.isAllDay === true;
+  const start = fromGraphDateTime(payload.start);
+  const end = fromGraphDateTime(payload.end);
+  const onlineMeeting = payload.onlineMeeting as { joinUrl?: string } | null | undefined;
+  const extendedProperties = Array.isArray(payload.singleValueExtendedProperties)
+    ? (payload.singleValueExtendedProperties as { id?: string; value?: string }[])
+    : [];
+  const storedProperties = extendedProperties.find(
+    (property) => property.id?.toLowerCase() === PRIVATE_PROPERTIES_ID.toLowerCase(),
+  )?.value;
+  const attendees = Array.isArray(payload.attendees)
+    ? (payload.attendees as { emailAddress?: { address?: string }; status?: { response?: string } }[])
+    : undefined;
+
+  return {
+    id: typeof payload.id === "string" ? payload.id : "",
+    htmlLink: typeof payload.webLink === "string" ? payload.webLink : undefined,
+    hangoutLink: typeof onlineMeeting?.joinUrl === "string" ? onlineMeeting.joinUrl : undefined,
+    start: isAllDay ? "" : start,
+    end: isAllDay ? "" : end,
+    startDate: isAllDay ? start.slice(0, 10) : undefined,
+    endDate: isAllDay ? end.slice(0, 10) : undefined,
+    status: payload.isCancelled === true ? "cancelled" : "confirmed",
+    transparency: payload.showAs === "free" ? "transparent" : "opaque",
+    attendees: attendees?.map((attendee) => ({
+      email: attendee.emailAddress?.address,
+      responseStatus: ATTENDEE_RESPONSES[attendee.status?.response ?? "none"],
+    })),
+    privateProperties: storedProperties ? parsePrivateProperties(storedProperties) : undefined,
+    created: typeof payload.createdDateTime === "string" ? payload.createdDateTime : undefined,
+    raw: payload,
+  };
+}
+
+function parsePrivateProperties(value: string): Record<string, string> | undefined {
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, string>) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Graph notifies attendees of every change itself; `sendUpdates: "none"` is honoured only on create.
+export function createMicrosoftCalendarProvider(options: MicrosoftCalendarProviderOptions = {}): CalendarProvider {
+  const { teamsMeeting, fetchImpl } = options;
+
+  return {
+    id: "microsoft",
+    getFreeBusy: ({ timeMin, timeMax, calendarIds }) =>
+      getMicrosoftFreeBusy({ timeMin, timeMax, calendarIds, fetchImpl }),
+    createEvent: (input) => createMicrosoftCalendarEvent({ ...input, teamsMeeting, fetchImpl }),
+    updateEvent: (input) => updateMicrosoftCalendarEvent({ ...input, fetchImpl }),
+    deleteEvent: (input) => deleteMicrosoftCalendarEvent({ ...input, fetchImpl }),
+    getEvent: (input) => getMicrosoftCalendarEvent({ ...input, fetchImpl }),
+    listEvents: (input) => listMicrosoftCalendarEvents({ ...input, fetchImpl }),
+    assertWritable: (calendarId) => assertMicrosoftCalendarWritable(calendarId, fetchImpl),
+  };
+}
+
+export type MicrosoftHealthOptions = {
+  // Every mailbox bookings can be written to; defaults to MICROSOFT_CALENDAR_IDS.
+  getCalendarIds?: () => string[];
+};
+
+export async function getMicrosoftHealth(
+  fetchImpl: FetchLike = fetch,
+  { getCalendarIds = getMicrosoftCalendarIds }: MicrosoftHealthOptions = {},
+): Promise<MicrosoftHealthStatus> {
+  let strategy: MicrosoftAuthStrategy | undefined;
+
+  try {
+    strategy = getMicrosoftAuthStrategy();
+    const calendars = [...new Set(getCalendarIds())];
+    if (calendars.length === 0) {
+      throw new MicrosoftCalendarConfigError("No active meeting type books into a Microsoft 365 calendar.");
+    }
+
+    const now = new Date();
+    const horizon = new Date(now.getTime() + 60 * 60 * 1000);
+
+    await getMicrosoftFreeBusy({ timeMin: now, timeMax: horizon, calendarIds: calendars, fetchImpl });
+    for (const calendarId of calendars) {
+      await assertMicrosoftCalendarWritable(calendarId, fetchImpl);
+    }
+
+    return {
+      status: "ok",
+      detail: `Microsoft 365 calendar reachable (bookings go to ${calendars.join(", ")}) using ${strategy} auth`,
+      source: "live",
+      strategy,
+    };
+  } catch (error) {
+    if (
+      error instanceof MicrosoftAuthConfigError ||
+      error instanceof MicrosoftCalendarConfigError ||
+      error instanceof MicrosoftGraphError
+    ) {
+      return {
+        status: "degraded",
+        detail: error.message,
+        source: "live",
+        strategy,
+      };
+    }
+
+    if (error instanceof MicrosoftAuthError) {
+      return {
+        status: "error",
+        detail: error.message,
+        source: "live",
+        strategy,
+      };
+    }
+
+    return {
+      status: "error",
+      detail: "Unexpected error while checking Microsoft 365 calendar health.",
+      source: "live",
+      strategy,
+    };
+  }
+}
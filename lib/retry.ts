@@ -0,0 +1,45 @@
+import "server-only";
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10 * 1000;
+
+export type RetryDelay = (ms: number) => Promise<void>;
+
+export type RetriedResponse = {
+  response: Response;
+  attempts: number;
+};
+
+const wait: RetryDelay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Replays `send` after throttling or a server error. Only pass requests that are safe to repeat.
+export async function sendWithRetry(send: () => Promise<Response>, delay: RetryDelay = wait): Promise<RetriedResponse> {
+  for (let attempts = 1; ; attempts += 1) {
+    const response = await send();
+
+    if (attempts > MAX_RETRIES || !RETRYABLE_STATUSES.has(response.status)) {
+      return { response, attempts };
+    }
+
+    // Release the dropped response's connection instead of leaving it to garbage collection.
+    await response.body?.cancel().catch(() => {});
+    await delay(getRetryDelayMs(response, attempts));
+  }
+}
+
+// Honors Retry-After (seconds or an HTTP date), otherwise backs off exponentially with jitter.
+export function getRetryDelayMs(response: Response, attempts: number): number {
+  const retryAfter = response.headers.get("Retry-After");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delayMs = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+    if (Number.isFinite(delayMs)) {
+      return Math.min(MAX_RETRY_DELAY_MS, Math.max(0, delayMs));
+    }
+  }
+
+  const backoffMs = Math.min(MAX_RETRY_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+  return backoffMs / 2 + Math.random() * (backoffMs / 2);
+}
@@ -1,3 +1,5 @@
+import "server-only";
+
 import { createHmac, timingSafeEqual } from "node:crypto";
 
 import { buildAbsoluteUrl, type HeaderSource } from "./url";
@@ -10,6 +12,7 @@ export type SignedLinkPayload = {
   guestEmail: string;
   expiresAt: string;
   calendarId?: string;
+  hostId?: string;
   guestName?: string;
   slotStart?: string;
   slotEnd?: string;
@@ -1,10 +1,32 @@
-import { addDays, addMinutes, format } from "date-fns";
+import "server-only";
+
+import { addDays, addMinutes, format, parseISO } from "date-fns";
 import { fromZonedTime, toZonedTime } from "date-fns-tz";
 
 import appSettings from "@/config/app.settings.json" assert { type: "json" };
 import availabilityRules from "@/config/availability.rules.json" assert { type: "json" };
+import availabilitySchedules from "@/config/availability.schedules.json" assert { type: "json" };
 import meetingTypes from "@/config/meeting_types.json" assert { type: "json" };
-import { getGoogleFreeBusy, type GoogleFreeBusyResult } from "@/lib/google";
+import { getCachedAvailability } from "@/lib/availability-cache";
+import {
+  collectBusyTimes,
+  createCalendarProviderBusySource,
+  getConfiguredBusySources,
+  getMockBusyTimes,
+  getUncoveredCalendarIds,
+  type BusySource,
+  type BusyTimesByCalendar,
+} from "@/lib/busy-sources";
+import { getCalendarProviderForHost, getHostCalendarProviderConfig } from "@/lib/calendar-providers";
+import { HOST_TIMEZONE } from "@/lib/host-timezone";
+import {
+  assertMeetingTypeHostConfig,
+  getHostBusyCalendarIds,
+  getMeetingTypeHosts,
+  selectRoundRobinHost,
+  type Host,
+} from "@/lib/hosts";
+import { isAllowedDuration, type AvailabilityByDate, type MeetingType, type UtcSlot } from "@/lib/meeting-types";
 
 const WEEKDAY_INDEX: Record<string, number> = {
   sunday: 0,
@@ -16,33 +38,66 @@ const WEEKDAY_INDEX: Record<string, number> = {
   saturday: 6,
 };
 
-const ENV_HOST_TIMEZONE = process.env.TZ_DEFAULT_HOST ?? process.env.HOST_TIMEZONE;
+const BOOKING_SOURCE_PROPERTY = "bookedVia";
+const BOOKING_SOURCE_VALUE = "scheduler";
+const BOOKING_MEETING_TYPE_PROPERTY = "meetingTypeId";
+const BOOKING_HOST_PROPERTY = "hostId";
+const ROUND_ROBIN_LOOKBACK_DAYS = 90;
+
+export { HOST_TIMEZONE };
+
+type AvailabilityBreak = {
+  start: string;
+  end: string;
+  meetingTypeIds?: string[];
+};
+
+type DayRule = {
+  start: string;
+  end: string;
+  breaks?: AvailabilityBreak[];
+};
 
-export const HOST_TIMEZONE = ENV_HOST_TIMEZONE ?? appSettings.hostTimezone ?? "America/Los_Angeles";
+type AvailabilityRule = DayRule & {
+  weekday: string;
+};
 
-export const GUEST_TIMEZONE_OPTIONS = [
-  { label: "Eastern Time (ET)", value: "America/New_York" },
-  { label: "Central Time (CT)", value: "America/Chicago" },
-  { label: "Mountain Time (MT)", value: "America/Denver" },
-  { label: "Pacific Time (PT)", value: "America/Los_Angeles" },
-];
+type AvailabilityOverride = Partial<DayRule> & {
+  date?: string;
+  startDate?: string;
+  endDate?: string;
+  closed?: boolean;
+  label?: string;
+};
 
-type AvailabilityRule = (typeof availabilityRules)[number];
+type AvailabilityConfig = {
+  weekly: AvailabilityRule[];
+  overrides?: AvailabilityOverride[];
+};
 
-export type MeetingType = {
-  id: string;
-  title: string;
-  description?: string;
-  durationMinutes: number;
-  isActive: boolean;
+export type AvailabilityOptions = {
+  durationMinutes?: number;
+  hostId?: string;
+  // Read busy time directly instead of from the availability cache, e.g. before writing a booking.
+  skipCache?: boolean;
+  // The booking being rescheduled, which must not count against its own booking caps.
+  excludeEventId?: string;
 };
 
-export type UtcSlot = {
+export type SlotInterval = {
   start: string;
   end: string;
 };
 
-export type AvailabilityByDate = Record<string, UtcSlot[]>;
+export type SlotBookability = {
+  bookable: boolean;
+  hosts: Host[];
+};
+
+export type HostAvailability = {
+  host: Host;
+  slotsByDate: AvailabilityByDate;
+};
 
 export type AvailabilityResolution = {
   slotsByDate: AvailabilityByDate;
@@ -56,10 +111,18 @@ type BusyInterval = {
   end: Date;
 };
 
-const BLOCKED_MOCK_SLOTS = createBlockedMockSlots();
+type ExistingBooking = {
+  eventId: string;
+  calendarId: string;
+  meetingTypeId: string;
+  start: Date;
+};
+
+const configuredMeetingTypes = meetingTypes as MeetingType[];
+configuredMeetingTypes.forEach(assertMeetingTypeHostConfig);
 
 export function getMeetingTypes(): MeetingType[] {
-  return meetingTypes as MeetingType[];
+  return configuredMeetingTypes;
 }
 
 export function getActiveMeetingTypes(): MeetingType[] {
@@ -70,15 +133,43 @@ export function getMeetingTypeById(id: string): MeetingType | undefined {
   return getMeetingTypes().find((type) => type.id === id);
 }
 
-export function getMockSlotsByDate(meetingTypeId: string): AvailabilityByDate {
-  const meetingType = getMeetingTypeById(meetingTypeId);
+// Each host of an active meeting type, carrying the calendar its bookings are written to.
+export function getBookingDestinationHosts(providerType?: string): Host[] {
+  const destinations = new Map<string, Host>();
+
+  for (const meetingType of getActiveMeetingTypes()) {
+    for (const host of getMeetingTypeHosts(meetingType)) {
+      if (!providerType || getHostCalendarProviderConfig(host).type === providerType) {
+        destinations.set(`${host.id}:${host.calendarId}`, host);
+      }
+    }
+  }
+
+  return [...destinations.values()];
+}
+
+export function getBookingEventProperties(meetingTypeId: string, hostId?: string): Record<string, string> {
+  return {
+    [BOOKING_SOURCE_PROPERTY]: BOOKING_SOURCE_VALUE,
+    [BOOKING_MEETING_TYPE_PROPERTY]: meetingTypeId,
+    ...(hostId ? { [BOOKING_HOST_PROPERTY]: hostId } : {}),
+  };
+}
+
+export function getMockSlotsByDate(meetingTypeId: string, options: AvailabilityOptions = {}): AvailabilityByDate {
+  const meetingType = resolveMeetingTypeForDuration(meetingTypeId, options.durationMinutes);
   if (!meetingType) {
     return {};
   }
 
   const nowUtc = new Date();
-  const { startDateUtc } = getAvailabilityWindow(nowUtc);
-  const busyIntervals = getMockBusyIntervals(meetingType.durationMinutes);
+  const { startDateUtc, endDateUtc } = getAvailabilityWindow(nowUtc);
+  const busyIntervals = collectBusyIntervals(
+    getMockBusyTimes(
+      { timeMin: startDateUtc, timeMax: endDateUtc, calendarIds: ["mock"] },
+      { hostTimezone: HOST_TIMEZONE, meetingDurationMinutes: meetingType.durationMinutes },
+    ),
+  );
 
   return buildAvailabilityCalendar({
     meetingType,
@@ -88,31 +179,140 @@ export function getMockSlotsByDate(meetingTypeId: string): AvailabilityByDate {
   });
 }
 
-export async function getAvailabilityByDate(meetingTypeId: string): Promise<AvailabilityByDate> {
-  const meetingType = getMeetingTypeById(meetingTypeId);
+export async function getHostAvailability(
+  meetingTypeId: string,
+  options: AvailabilityOptions = {},
+): Promise<HostAvailability[]> {
+  const meetingType = resolveMeetingTypeForDuration(meetingTypeId, options.durationMinutes);
   if (!meetingType) {
-    return {};
+    return [];
+  }
+
+  const poolHosts = getMeetingTypeHosts(meetingType);
+  const hosts = getSchedulingHosts(meetingType, poolHosts, options.hostId);
+  if (hosts.length === 0) {
+    return [];
   }
 
+  const getBusyCalendarIds = getBusyCalendarResolver(meetingType, poolHosts);
   const nowUtc = new Date();
   const { startDateUtc, endDateUtc } = getAvailabilityWindow(nowUtc);
+  const { before, after } = getBufferMinutes(meetingType);
 
-  const freeBusy = await getGoogleFreeBusy({
-    timeMin: startDateUtc,
-    timeMax: endDateUtc,
-  });
+  const timeMin = addMinutes(startDateUtc, -before);
+  const timeMax = addMinutes(endDateUtc, after);
+  const calendarIds = [...new Set(hosts.flatMap(getBusyCalendarIds))];
+  const loadBusyData = () =>
+    loadSchedulingData({
+      meetingType,
+      poolHosts,
+      calendarIds,
+      busyWindow: { start: timeMin, end: timeMax },
+      bookingsWindow: { start: startDateUtc, end: endDateUtc },
+    });
 
-  const busyIntervals = collectBusyIntervals(freeBusy);
+  const { busyTimes, existingBookings } = options.skipCache
+    ? await loadBusyData()
+    : await getCachedAvailability(
+        { meetingTypeId: meetingType.id, durationMinutes: meetingType.durationMinutes, calendarIds, timeMin, timeMax },
+        loadBusyData,
+      );
 
-  return buildAvailabilityCalendar({
+  return hosts.map((host) => ({
+    host,
+    slotsByDate: buildAvailabilityCalendar({
+      meetingType,
+      startDateUtc,
+      nowUtc,
+      busyIntervals: collectBusyIntervals(pickCalendars(busyTimes, getBusyCalendarIds(host))),
+      existingBookings: getHostBookings(existingBookings, host, options.excludeEventId),
+    }),
+  }));
+}
+
+export async function getAvailabilityByDate(
+  meetingTypeId: string,
+  options: AvailabilityOptions = {},
+): Promise<AvailabilityByDate> {
+  const hostAvailability = await getHostAvailability(meetingTypeId, options);
+  return mergeHostAvailability(hostAvailability);
+}
+
+// Only busy time around the requested interval (padded by buffers) and the rules of its host-local
+// day are consulted, so the check costs the same however far out the booking window reaches.
+export async function getSlotBookability(
+  meetingTypeId: string,
+  interval: SlotInterval,
+  options: Pick<AvailabilityOptions, "hostId" | "excludeEventId"> = {},
+): Promise<SlotBookability> {
+  const notBookable: SlotBookability = { bookable: false, hosts: [] };
+  const startMs = Date.parse(interval.start);
+  const endMs = Date.parse(interval.end);
+  if (!Number.isFinite(startMs) || !Number.isFinite(endMs) || endMs <= startMs) {
+    return notBookable;
+  }
+
+  const meetingType = resolveMeetingTypeForDuration(meetingTypeId, (endMs - startMs) / 60000);
+  if (!meetingType) {
+    return notBookable;
+  }
+
+  const poolHosts = getMeetingTypeHosts(meetingType);
+  const hosts = getSchedulingHosts(meetingType, poolHosts, options.hostId);
+  const nowUtc = new Date();
+  const { startDateUtc, endDateUtc } = getAvailabilityWindow(nowUtc);
+  const slotStart = new Date(startMs);
+  if (hosts.length === 0 || slotStart < startDateUtc || slotStart >= endDateUtc) {
+    return notBookable;
+  }
+
+  const getBusyCalendarIds = getBusyCalendarResolver(meetingType, poolHosts);
+  const dateLabel = toHostDateLabel(slotStart);
+  const { before, after } = getBufferMinutes(meetingType);
+  const nextWeekStartLabel = format(addDays(parseISO(getWeekStartLabel(dateLabel)), 7), "yyyy-MM-dd");
+
+  const { busyTimes, existingBookings } = await loadSchedulingData({
     meetingType,
-    startDateUtc,
-    nowUtc,
-    busyIntervals,
+    poolHosts,
+    calendarIds: [...new Set(hosts.flatMap(getBusyCalendarIds))],
+    busyWindow: { start: addMinutes(slotStart, -before), end: addMinutes(new Date(endMs), after) },
+    bookingsWindow: {
+      start: fromZonedTime(`${dateLabel}T00:00:00`, HOST_TIMEZONE),
+      end: fromZonedTime(`${nextWeekStartLabel}T00:00:00`, HOST_TIMEZONE),
+    },
   });
+
+  const freeHosts = hosts.filter(
+    (host) =>
+      !isBookingCapReached(meetingType, dateLabel, getHostBookings(existingBookings, host, options.excludeEventId)) &&
+      buildSlotsForDate({
+        meetingType,
+        dateLabel,
+        nowUtc,
+        busyIntervals: collectBusyIntervals(pickCalendars(busyTimes, getBusyCalendarIds(host))),
+      }).some((slot) => Date.parse(slot.start) === startMs && Date.parse(slot.end) === endMs),
+  );
+
+  return { bookable: freeHosts.length > 0, hosts: freeHosts };
 }
 
-export async function getAvailabilityWithFallback(meetingTypeId: string): Promise<AvailabilityResolution> {
+export async function assignHost(meetingType: MeetingType, candidates: Host[]): Promise<Host | undefined> {
+  if (meetingType.assignment !== "round-robin" || candidates.length <= 1) {
+    return candidates[0];
+  }
+
+  const strategy = meetingType.roundRobinStrategy ?? "least-recently-booked";
+  const lastBookedAt =
+    strategy === "least-recently-booked" ? await getLastBookedAtByHost(meetingType, candidates) : undefined;
+
+  return selectRoundRobinHost(strategy, candidates, { lastBookedAt });
+}
+
+export async function getAvailabilityWithFallback(
+  meetingTypeId: string,
+  options: AvailabilityOptions = {},
+): Promise<AvailabilityResolution> {
+  const { durationMinutes } = options;
   const meetingType = getMeetingTypeById(meetingTypeId);
 
   if (!meetingType) {
@@ -124,8 +324,17 @@ export async function getAvailabilityWithFallback(meetingTypeId: string): Promis
     };
   }
 
+  if (durationMinutes !== undefined && !isAllowedDuration(meetingType, durationMinutes)) {
+    return {
+      slotsByDate: {},
+      source: "mock",
+      fallback: true,
+      message: `Meeting type ${meetingTypeId} does not offer ${durationMinutes}-minute meetings.`,
+    };
+  }
+
   try {
-    const slotsByDate = await getAvailabilityByDate(meetingType.id);
+    const slotsByDate = await getAvailabilityByDate(meetingType.id, options);
 
     return {
       slotsByDate,
@@ -133,7 +342,7 @@ export async function getAvailabilityWithFallback(meetingTypeId: string): Promis
       fallback: false,
     };
   } catch (error) {
-    const fallbackSlots = getMockSlotsByDate(meetingType.id);
+    const fallbackSlots = getMockSlotsByDate(meetingType.id, options);
     const message =
       error instanceof Error ? error.message : "Unknown error fetching Google availability";
 
@@ -152,16 +361,132 @@ export async function getAvailabilityWithFallback(meetingTypeId: string): Promis
   }
 }
 
+function resolveMeetingTypeForDuration(meetingTypeId: string, durationMinutes?: number): MeetingType | undefined {
+  const meetingType = getMeetingTypeById(meetingTypeId);
+  if (!meetingType || durationMinutes === undefined || durationMinutes === meetingType.durationMinutes) {
+    return meetingType;
+  }
+
+  if (!isAllowedDuration(meetingType, durationMinutes)) {
+    return undefined;
+  }
+
+  return { ...meetingType, durationMinutes };
+}
+
+function getSchedulingHosts(meetingType: MeetingType, poolHosts: Host[], hostId?: string): Host[] {
+  if (meetingType.assignment === "collective" && poolHosts.length !== (meetingType.hostIds ?? []).length) {
+    return [];
+  }
+
+  if (hostId) {
+    return poolHosts.filter((host) => host.id === hostId);
+  }
+
+  return meetingType.assignment === "round-robin" ? poolHosts : poolHosts.slice(0, 1);
+}
+
+function getBusyCalendarResolver(meetingType: MeetingType, poolHosts: Host[]): (host: Host) => string[] {
+  return (host) =>
+    meetingType.assignment === "collective" ? poolHosts.flatMap(getHostBusyCalendarIds) : getHostBusyCalendarIds(host);
+}
+
+async function loadSchedulingData({
+  meetingType,
+  poolHosts,
+  calendarIds,
+  busyWindow,
+  bookingsWindow,
+}: {
+  meetingType: MeetingType;
+  poolHosts: Host[];
+  calendarIds: string[];
+  busyWindow: { start: Date; end: Date };
+  bookingsWindow: { start: Date; end: Date };
+}): Promise<{ busyTimes: BusyTimesByCalendar; existingBookings: ExistingBooking[] }> {
+  const calendarProviders = Object.fromEntries(
+    poolHosts.flatMap((host) => {
+      const providerType = getHostCalendarProviderConfig(host).type;
+      return getHostBusyCalendarIds(host)
+        .filter((calendarId) => calendarIds.includes(calendarId))
+        .map((calendarId) => [calendarId, providerType]);
+    }),
+  );
+
+  const [busyTimes, existingBookings] = await Promise.all([
+    collectBusyTimes(
+      { timeMin: busyWindow.start, timeMax: busyWindow.end, calendarIds, calendarProviders },
+      getHostBusySources(
+        poolHosts,
+        calendarProviders,
+        getConfiguredBusySources({
+          hostTimezone: HOST_TIMEZONE,
+          meetingDurationMinutes: meetingType.durationMinutes,
+        }),
+      ),
+    ),
+    hasBookingCaps(meetingType)
+      ? getExistingBookings(poolHosts, bookingsWindow.start, bookingsWindow.end)
+      : Promise.resolve([]),
+  ]);
+
+  return { busyTimes, existingBookings };
+}
+
+// Host calendars that no configured source reads from get their busy time from the host's own
+// calendar provider, so a calendar is never treated as free just because nothing looked at it.
+function getHostBusySources(
+  poolHosts: Host[],
+  calendarProviders: Record<string, string>,
+  configuredSources: BusySource[],
+): BusySource[] {
+  const uncovered = new Set(getUncoveredCalendarIds(configuredSources, calendarProviders));
+  const hostSources = poolHosts.flatMap((host) => {
+    const hostCalendarIds = getHostBusyCalendarIds(host).filter((calendarId) => uncovered.has(calendarId));
+    hostCalendarIds.forEach((calendarId) => uncovered.delete(calendarId));
+    return hostCalendarIds.length > 0
+      ? [createCalendarProviderBusySource(getCalendarProviderForHost(host), hostCalendarIds)]
+      : [];
+  });
+
+  return [...configuredSources, ...hostSources];
+}
+
+function mergeHostAvailability(hostAvailability: HostAvailability[]): AvailabilityByDate {
+  if (hostAvailability.length === 1) {
+    return hostAvailability[0].slotsByDate;
+  }
+
+  const merged: AvailabilityByDate = {};
+
+  for (const { slotsByDate } of hostAvailability) {
+    for (const [dateLabel, slots] of Object.entries(slotsByDate)) {
+      const existing = merged[dateLabel] ?? [];
+      const seen = new Set(existing.map((slot) => `${slot.start}|${slot.end}`));
+      const additions = slots.filter((slot) => !seen.has(`${slot.start}|${slot.end}`));
+      merged[dateLabel] = [...existing, ...additions].sort((a, b) => a.start.localeCompare(b.start));
+    }
+  }
+
+  return merged;
+}
+
+function pickCalendars(busyTimes: BusyTimesByCalendar, calendarIds: string[]): BusyTimesByCalendar {
+  return Object.fromEntries(calendarIds.map((calendarId) => [calendarId, busyTimes[calendarId] ?? []]));
+}
+
 function buildAvailabilityCalendar({
   meetingType,
   startDateUtc,
   nowUtc,
   busyIntervals,
+  existingBookings = [],
 }: {
   meetingType: MeetingType;
   startDateUtc: Date;
   nowUtc: Date;
   busyIntervals: BusyInterval[];
+  existingBookings?: ExistingBooking[];
 }): AvailabilityByDate {
   const availability: AvailabilityByDate = {};
 
@@ -171,8 +496,16 @@ function buildAvailabilityCalendar({
     const dateLabel = format(dayInHostTz, "yyyy-MM-dd");
     const nextDayStartUtc = addDays(dayStartUtc, 1);
 
+    if (isBookingCapReached(meetingType, dateLabel, existingBookings)) {
+      availability[dateLabel] = [];
+      continue;
+    }
+    const { before, after } = getBufferMinutes(meetingType);
+    const windowStartUtc = addMinutes(dayStartUtc, -before);
+    const windowEndUtc = addMinutes(nextDayStartUtc, after);
+
     const busyForDay = busyIntervals.filter(
-      (interval) => interval.start < nextDayStartUtc && interval.end > dayStartUtc,
+      (interval) => interval.start < windowEndUtc && interval.end > windowStartUtc,
     );
 
     availability[dateLabel] = buildSlotsForDate({
@@ -197,56 +530,275 @@ function buildSlotsForDate({
   nowUtc: Date;
   busyIntervals: BusyInterval[];
 }): UtcSlot[] {
-  const rule = getRuleForDate(dateLabel);
+  const rules = getRulesForDate(dateLabel, meetingType);
 
-  if (!rule) {
+  if (rules.length === 0) {
     return [];
   }
 
-  const startUtc = fromZonedTime(`${dateLabel}T${rule.start}:00`, HOST_TIMEZONE);
-  const endUtc = fromZonedTime(`${dateLabel}T${rule.end}:00`, HOST_TIMEZONE);
+  const windows = mergeBusyIntervals(
+    rules.map((rule) => ({
+      start: fromZonedTime(`${dateLabel}T${rule.start}:00`, HOST_TIMEZONE),
+      end: fromZonedTime(`${dateLabel}T${rule.end}:00`, HOST_TIMEZONE),
+    })),
+  );
 
   const slots: UtcSlot[] = [];
-  let cursor = startUtc;
   const minStartUtc = addMinutes(nowUtc, appSettings.minNoticeMinutes);
+  const { before, after } = getBufferMinutes(meetingType);
+  const intervalMinutes = getSlotIntervalMinutes(meetingType);
+  const breakIntervals = getBreakIntervals(rules, dateLabel, meetingType.id);
+
+  for (const workingWindow of windows) {
+    let cursor = workingWindow.start;
+
+    while (cursor < workingWindow.end) {
+      const slotEnd = addMinutes(cursor, meetingType.durationMinutes);
+      if (slotEnd > workingWindow.end) break;
+
+      if (cursor >= minStartUtc) {
+        const bufferedStart = addMinutes(cursor, -before);
+        const bufferedEnd = addMinutes(slotEnd, after);
+
+        // Breaks are kept clear of buffers just like busy time.
+        if (
+          !slotOverlapsBusy(bufferedStart, bufferedEnd, breakIntervals) &&
+          !slotOverlapsBusy(bufferedStart, bufferedEnd, busyIntervals)
+        ) {
+          slots.push({ start: cursor.toISOString(), end: slotEnd.toISOString() });
+        }
+      }
 
-  while (cursor < endUtc) {
-    const slotEnd = addMinutes(cursor, meetingType.durationMinutes);
-    if (slotEnd > endUtc) break;
+      cursor = addMinutes(cursor, intervalMinutes);
+    }
+  }
 
-    if (cursor >= minStartUtc) {
-      const cursorInHost = toZonedTime(cursor, HOST_TIMEZONE);
-      const isLunchBreak = cursorInHost.getHours() === 12;
+  return slots;
+}
 
-      if (!isLunchBreak && !slotOverlapsBusy(cursor, slotEnd, busyIntervals)) {
-        slots.push({ start: cursor.toISOString(), end: slotEnd.toISOString() });
-      }
+function hasBookingCaps(meetingType: MeetingType): boolean {
+  return Boolean(meetingType.maxPerDay || meetingType.maxPerWeek || appSettings.maxBookingsPerDay);
+}
+
+function isBookingCapReached(
+  meetingType: MeetingType,
+  dateLabel: string,
+  existingBookings: ExistingBooking[],
+): boolean {
+  if (existingBookings.length === 0) {
+    return false;
+  }
+
+  const bookingsForDay = existingBookings.filter((booking) => toHostDateLabel(booking.start) === dateLabel);
+
+  if (appSettings.maxBookingsPerDay > 0 && bookingsForDay.length >= appSettings.maxBookingsPerDay) {
+    return true;
+  }
+
+  const typeBookingsForDay = bookingsForDay.filter((booking) => booking.meetingTypeId === meetingType.id);
+
+  if (meetingType.maxPerDay && typeBookingsForDay.length >= meetingType.maxPerDay) {
+    return true;
+  }
+
+  if (meetingType.maxPerWeek) {
+    const weekStartLabel = getWeekStartLabel(dateLabel);
+    const typeBookingsForWeek = existingBookings.filter(
+      (booking) =>
+        booking.meetingTypeId === meetingType.id &&
+        getWeekStartLabel(toHostDateLabel(booking.start)) === weekStartLabel,
+    );
+
+    if (typeBookingsForWeek.length >= meetingType.maxPerWeek) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+// Caps count each host's own bookings, so a round-robin pool is capped per host rather than as a team.
+function getHostBookings(existingBookings: ExistingBooking[], host: Host, excludeEventId?: string): ExistingBooking[] {
+  return existingBookings.filter(
+    (booking) => booking.calendarId === host.calendarId && booking.eventId !== excludeEventId,
+  );
+}
+
+async function getExistingBookings(hosts: Host[], startDateUtc: Date, endDateUtc: Date): Promise<ExistingBooking[]> {
+  const weekStartLabel = getWeekStartLabel(toHostDateLabel(startDateUtc));
+  const hostsByCalendar = new Map(hosts.map((host) => [host.calendarId, host]));
+
+  const eventsByCalendar = await Promise.all(
+    [...hostsByCalendar].map(async ([calendarId, host]) => {
+      const events = await getCalendarProviderForHost(host).listEvents({
+        calendarId,
+        timeMin: fromZonedTime(`${weekStartLabel}T00:00:00`, HOST_TIMEZONE),
+        timeMax: endDateUtc,
+        privateProperties: { [BOOKING_SOURCE_PROPERTY]: BOOKING_SOURCE_VALUE },
+      });
+      return events.map((event) => ({ calendarId, event }));
+    }),
+  );
+  const events = eventsByCalendar.flat();
+
+  const bookings: ExistingBooking[] = [];
+
+  for (const { calendarId, event } of events) {
+    const meetingTypeId = event.privateProperties?.[BOOKING_MEETING_TYPE_PROPERTY];
+    const start = new Date(event.start);
+
+    if (!meetingTypeId || Number.isNaN(start.getTime())) {
+      continue;
     }
 
-    cursor = slotEnd;
+    bookings.push({ eventId: event.id, calendarId, meetingTypeId, start });
   }
 
-  return slots;
+  return bookings;
+}
+
+async function getLastBookedAtByHost(meetingType: MeetingType, hosts: Host[]): Promise<Record<string, number>> {
+  const nowUtc = new Date();
+  const { endDateUtc } = getAvailabilityWindow(nowUtc);
+  const lastBookedAt: Record<string, number> = {};
+
+  await Promise.all(
+    hosts.map(async (host) => {
+      const events = await getCalendarProviderForHost(host).listEvents({
+        calendarId: host.calendarId,
+        timeMin: addDays(nowUtc, -ROUND_ROBIN_LOOKBACK_DAYS),
+        timeMax: endDateUtc,
+        privateProperties: {
+          [BOOKING_SOURCE_PROPERTY]: BOOKING_SOURCE_VALUE,
+          [BOOKING_MEETING_TYPE_PROPERTY]: meetingType.id,
+        },
+      });
+
+      for (const event of events) {
+        if (event.privateProperties?.[BOOKING_HOST_PROPERTY] !== host.id) {
+          continue;
+        }
+
+        const bookedAt = Date.parse(event.created ?? event.start);
+        if (Number.isFinite(bookedAt) && bookedAt > (lastBookedAt[host.id] ?? 0)) {
+          lastBookedAt[host.id] = bookedAt;
+        }
+      }
+    }),
+  );
+
+  return lastBookedAt;
+}
+
+function toHostDateLabel(value: Date): string {
+  return format(toZonedTime(value, HOST_TIMEZONE), "yyyy-MM-dd");
+}
+
+function getWeekStartLabel(dateLabel: string): string {
+  const date = new Date(`${dateLabel}T00:00:00.000Z`);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return addDays(date, -daysSinceMonday).toISOString().slice(0, 10);
+}
+
+function getBufferMinutes(meetingType: MeetingType): { before: number; after: number } {
+  return {
+    before: Math.max(0, meetingType.bufferBeforeMinutes ?? 0),
+    after: Math.max(0, meetingType.bufferAfterMinutes ?? 0),
+  };
+}
+
+function getSlotIntervalMinutes(meetingType: MeetingType): number {
+  const interval = meetingType.slotIntervalMinutes ?? appSettings.slotIntervalMinutes ?? meetingType.durationMinutes;
+  return interval > 0 ? interval : meetingType.durationMinutes;
 }
 
 function slotOverlapsBusy(startUtc: Date, endUtc: Date, busyIntervals: BusyInterval[]) {
   return busyIntervals.some((interval) => startUtc < interval.end && endUtc > interval.start);
 }
 
-function getRuleForDate(dateLabel: string): AvailabilityRule | undefined {
+function getScheduleForMeetingType(meetingType: MeetingType): AvailabilityConfig | undefined {
+  if (!meetingType.scheduleId) {
+    return availabilityRules as AvailabilityConfig;
+  }
+
+  const schedules = availabilitySchedules as Record<string, AvailabilityConfig>;
+  return schedules[meetingType.scheduleId];
+}
+
+function getRulesForDate(dateLabel: string, meetingType: MeetingType): DayRule[] {
+  const config = getScheduleForMeetingType(meetingType);
+
+  if (!config) {
+    return [];
+  }
+
+  const globalConfig = availabilityRules as AvailabilityConfig;
+  if (
+    config !== globalConfig &&
+    getOverridesForDate(globalConfig.overrides ?? [], dateLabel).some((override) => override.closed)
+  ) {
+    return [];
+  }
+
+  const overrides = getOverridesForDate(config.overrides ?? [], dateLabel);
+
+  if (overrides.length > 0) {
+    if (overrides.some((override) => override.closed)) {
+      return [];
+    }
+
+    return overrides.flatMap((override) =>
+      override.start && override.end
+        ? [{ start: override.start, end: override.end, breaks: override.breaks }]
+        : [],
+    );
+  }
+
   const midnightUtc = fromZonedTime(`${dateLabel}T00:00:00`, HOST_TIMEZONE);
   const hostDate = toZonedTime(midnightUtc, HOST_TIMEZONE);
   const weekdayIndex = hostDate.getDay();
 
-  return (availabilityRules as AvailabilityRule[]).find(
-    (rule) => WEEKDAY_INDEX[rule.weekday] === weekdayIndex,
+  return config.weekly.filter((rule) => WEEKDAY_INDEX[rule.weekday] === weekdayIndex);
+}
+
+function getOverridesForDate(overrides: AvailabilityOverride[], dateLabel: string): AvailabilityOverride[] {
+  const exact = overrides.filter((override) => override.date === dateLabel);
+  if (exact.length > 0) {
+    return exact;
+  }
+
+  return overrides.filter(
+    (override) =>
+      !override.date &&
+      typeof override.startDate === "string" &&
+      override.startDate <= dateLabel &&
+      (override.endDate ?? override.startDate) >= dateLabel,
   );
 }
 
-function collectBusyIntervals(freeBusy: GoogleFreeBusyResult): BusyInterval[] {
+function getBreakIntervals(rules: DayRule[], dateLabel: string, meetingTypeId: string): BusyInterval[] {
+  const intervals: BusyInterval[] = [];
+
+  for (const entry of rules.flatMap((rule) => rule.breaks ?? [])) {
+    if (entry.meetingTypeIds && !entry.meetingTypeIds.includes(meetingTypeId)) {
+      continue;
+    }
+
+    const start = fromZonedTime(`${dateLabel}T${entry.start}:00`, HOST_TIMEZONE);
+    const end = fromZonedTime(`${dateLabel}T${entry.end}:00`, HOST_TIMEZONE);
+
+    if (end > start) {
+      intervals.push({ start, end });
+    }
+  }
+
+  return mergeBusyIntervals(intervals);
+}
+
+function collectBusyIntervals(busyTimes: BusyTimesByCalendar): BusyInterval[] {
   const intervals: BusyInterval[] = [];
 
-  for (const calendarBusy of Object.values(freeBusy)) {
+  for (const calendarBusy of Object.values(busyTimes)) {
     for (const range of calendarBusy) {
       const start = new Date(range.start);
       const end = new Date(range.end);
@@ -292,20 +844,6 @@ function mergeBusyIntervals(intervals: BusyInterval[]): BusyInterval[] {
   return merged;
 }
 
-function getMockBusyIntervals(durationMinutes: number): BusyInterval[] {
-  const busy: BusyInterval[] = [];
-
-  for (const [dateLabel, blockedStarts] of Object.entries(BLOCKED_MOCK_SLOTS)) {
-    for (const startLabel of blockedStarts) {
-      const startUtc = fromZonedTime(`${dateLabel}T${startLabel}:00`, HOST_TIMEZONE);
-      const endUtc = addMinutes(startUtc, durationMinutes);
-      busy.push({ start: startUtc, end: endUtc });
-    }
-  }
-
-  return busy;
-}
-
 function getAvailabilityWindow(nowUtc: Date): { startDateUtc: Date; endDateUtc: Date } {
   const hostNow = toZonedTime(nowUtc, HOST_TIMEZONE);
   const startLabel = format(hostNow, "yyyy-MM-dd");
@@ -318,15 +856,3 @@ function getAvailabilityWindow(nowUtc: Date): { startDateUtc: Date; endDateUtc:
 
   return { startDateUtc, endDateUtc };
 }
-
-function createBlockedMockSlots(): Record<string, string[]> {
-  const hostNow = toZonedTime(new Date(), HOST_TIMEZONE);
-  const first = format(addDays(hostNow, 2), "yyyy-MM-dd");
-  const second = format(addDays(hostNow, 9), "yyyy-MM-dd");
-
-  return {
-    [first]: ["09:00", "09:30", "10:00"],
-    [second]: ["13:00", "13:30"],
-  };
-}
-
@@ -12,6 +12,8 @@ export default defineConfig({
   resolve: {
     alias: {
       "@": resolve(rootDir, "."),
+      // Next resolves this marker to an empty module on the server; tests run as server code too.
+      "server-only": resolve(rootDir, "node_modules/server-only/empty.js"),
     },
   },
 });